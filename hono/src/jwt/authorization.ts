@@ -0,0 +1,170 @@
+/**
+ * JWT 授权模块，提供了基于令牌中角色和权限范围声明的授权中间件。
+ * 这些中间件需要放在 createJWTMiddleware 之后使用，读取上下文中的 jwtPayload，
+ * 未认证时返回 401，权限不足时返回 403 和 RFC 6750 的 `WWW-Authenticate: Bearer error="insufficient_scope"`。
+ *
+ * @example
+ * ```ts
+ * import { Hono } from "hono";
+ * import { createJWTMiddleware, requireRoles, requireScopes } from "@aiho/hono/jwt";
+ *
+ * const app = new Hono();
+ * const jwtMiddleware = createJWTMiddleware(jwtService.verify.bind(jwtService));
+ *
+ * app.get("/admin", jwtMiddleware, requireRoles("admin"), (c) => {
+ *   return c.json({ message: "管理员页面" });
+ * });
+ *
+ * app.post("/posts", jwtMiddleware, requireScopes("posts:write"), (c) => {
+ *   return c.json({ message: "已创建" });
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { Context, Next } from 'hono'
+import { getClaim } from '../utils.ts'
+import { toArray } from './claims.ts'
+import { createAuthFailureHandler } from './middleware.ts'
+import type {
+  JWTAuthorizationOptions,
+  JWTMiddlewareHandler,
+  JWTPayload,
+  Variables
+} from './types.ts'
+
+/**
+ * 将声明值统一为字符串数组
+ * 字符串按空格拆分（如 OAuth 的 scope 声明），数组只保留其中的字符串
+ * @param value 声明值
+ * @returns 字符串数组
+ */
+const toStringList = (value: unknown): string[] => {
+  if (typeof value === 'string') {
+    return value.split(' ').filter(Boolean)
+  }
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string')
+  }
+  return []
+}
+
+/**
+ * 创建校验声明内容的中间件
+ * @param required 要求的值
+ * @param claim 声明路径
+ * @param match 匹配方式
+ * @param options 错误消息、realm 和自定义错误响应
+ * @param scope 权限不足时写入 WWW-Authenticate 响应头的权限范围
+ * @returns Hono 中间件函数
+ */
+const createClaimMiddleware = (
+  required: string[],
+  claim: string,
+  match: 'any' | 'all',
+  options: JWTAuthorizationOptions,
+  scope?: string
+): JWTMiddlewareHandler<JWTPayload | undefined> => {
+  const fail = createAuthFailureHandler(options)
+  return async (
+    c: Context<{ Variables: Variables<JWTPayload | undefined> }>,
+    next: Next
+  ) => {
+    const payload = c.get('jwtPayload')
+    if (!payload) {
+      return await fail(c, 'missing')
+    }
+
+    const granted = toStringList(getClaim(payload, claim))
+    const allowed =
+      match === 'all'
+        ? required.every((value) => granted.includes(value))
+        : required.some((value) => granted.includes(value))
+    if (!allowed) {
+      return await fail(c, 'insufficient_scope', undefined, scope)
+    }
+    await next()
+  }
+}
+
+/**
+ * 创建角色校验中间件
+ * 角色声明可以是字符串或字符串数组，默认只需拥有其中任意一个角色
+ *
+ * @param roles 允许的角色
+ * @param options 校验配置，可以指定声明路径、匹配方式，以及与 createJWTMiddleware 相同的错误消息、realm 和自定义错误响应
+ * @returns Hono 中间件函数，未认证时返回 401，角色不符时返回 403
+ *
+ * @example 基本用法
+ * ```ts
+ * import { requireRoles } from "@aiho/hono/jwt";
+ *
+ * // 令牌负载为 { role: "admin" } 或 { role: ["editor", "admin"] }
+ * app.get("/admin", jwtMiddleware, requireRoles("admin"), (c) => c.text("ok"));
+ *
+ * // 拥有 admin 或 editor 任意一个角色即可
+ * app.put("/posts/:id", jwtMiddleware, requireRoles(["admin", "editor"]), handler);
+ * ```
+ *
+ * @example 嵌套声明
+ * ```ts
+ * import { requireRoles } from "@aiho/hono/jwt";
+ *
+ * // Keycloak 令牌负载为 { realm_access: { roles: ["admin"] } }
+ * app.get(
+ *   "/admin",
+ *   jwtMiddleware,
+ *   requireRoles("admin", { claim: "realm_access.roles" }),
+ *   handler
+ * );
+ * ```
+ */
+export const requireRoles = (
+  roles: string | string[],
+  options: JWTAuthorizationOptions = {}
+): JWTMiddlewareHandler<JWTPayload | undefined> =>
+  createClaimMiddleware(
+    toArray(roles),
+    options.claim || 'role',
+    options.match || 'any',
+    options
+  )
+
+/**
+ * 创建权限范围校验中间件
+ * 权限范围声明可以是以空格分隔的字符串（OAuth 2.0 的 scope）或字符串数组，默认必须拥有全部权限范围
+ *
+ * @param scopes 要求的权限范围
+ * @param options 校验配置，可以指定声明路径、匹配方式，以及与 createJWTMiddleware 相同的错误消息、realm 和自定义错误响应
+ * @returns Hono 中间件函数，未认证时返回 401，权限范围不足时返回 403，WWW-Authenticate 响应头的 scope 参数为要求的权限范围
+ *
+ * @example
+ * ```ts
+ * import { requireScopes } from "@aiho/hono/jwt";
+ *
+ * // 令牌负载为 { scope: "posts:read posts:write" }
+ * app.post("/posts", jwtMiddleware, requireScopes("posts:write"), handler);
+ *
+ * // Azure AD 令牌使用 scp 声明
+ * app.get("/files", jwtMiddleware, requireScopes(["files:read"], { claim: "scp" }), handler);
+ *
+ * // 与认证中间件使用相同的 realm 和错误消息
+ * // 权限不足时返回 403 和 WWW-Authenticate: Bearer realm="api", error="insufficient_scope", ..., scope="admin:write"
+ * app.delete("/users/:id", jwtMiddleware, requireScopes("admin:write", {
+ *   realm: "api",
+ *   messages: { insufficient_scope: "Forbidden" }
+ * }), handler);
+ * ```
+ */
+export const requireScopes = (
+  scopes: string | string[],
+  options: JWTAuthorizationOptions = {}
+): JWTMiddlewareHandler<JWTPayload | undefined> =>
+  createClaimMiddleware(
+    toArray(scopes),
+    options.claim || 'scope',
+    options.match || 'all',
+    options,
+    toArray(scopes).join(' ')
+  )
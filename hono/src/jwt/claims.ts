@@ -0,0 +1,171 @@
+/**
+ * JWT 声明模块，校验 exp、nbf、iat、iss、aud 和 sub 等标准声明。
+ * DefaultJWTService 和 RemoteJWKSVerifier 在签名验证通过后使用该模块校验负载，
+ * 每种失败原因都会抛出不同的错误类型。
+ *
+ * 该模块还提供了读取嵌套声明和使用校验器校验负载的辅助函数。
+ *
+ * 该模块为 JWT 模块的内部实现，不对外导出。
+ *
+ * @module
+ */
+
+import type { StandardSchemaV1Result } from '../state/types.ts'
+import {
+  InvalidAudienceError,
+  InvalidIssuedAtError,
+  InvalidIssuerError,
+  InvalidPayloadError,
+  MalformedTokenError,
+  MissingSubjectError,
+  TokenExpiredError,
+  TokenNotYetValidError,
+  TokenTooOldError
+} from './errors.ts'
+import type { JWTPayload, JWTPayloadValidator } from './types.ts'
+
+/** 声明校验选项 */
+export interface JWTClaimsValidation {
+  /** 允许的签发者（iss），省略时不校验 */
+  issuer?: string | string[]
+  /** 允许的受众（aud），令牌的 aud 包含其中任意一个即可，省略时不校验 */
+  audience?: string | string[]
+  /** 是否要求令牌包含 sub */
+  requireSubject?: boolean
+  /** 允许的时钟偏差(秒)，默认为 0 */
+  leeway?: number
+  /**
+   * 令牌签发后的最大有效时长(秒)，设置后要求令牌包含 iat
+   * 令牌包含 auth_time 时改为从首次认证时间算起，续期后的令牌也受该时长限制
+   */
+  maxTokenAge?: number
+}
+
+/**
+ * 将单个值或数组统一为数组
+ * @param value 单个值或数组
+ * @returns 数组
+ */
+export const toArray = <T>(value: T | T[]): T[] =>
+  Array.isArray(value) ? value : [value]
+
+/**
+ * 读取时间类声明
+ * @param payload JWT 负载数据
+ * @param name 声明名称
+ * @returns 声明值（秒），不存在时返回 undefined
+ * @throws {MalformedTokenError} 如果声明不是数字
+ */
+const numericClaim = (
+  payload: JWTPayload,
+  name: string
+): number | undefined => {
+  const value = payload[name]
+  if (value === undefined) {
+    return undefined
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new MalformedTokenError(`Invalid ${name} claim`)
+  }
+  return value
+}
+
+/**
+ * 校验标准声明
+ * @param payload JWT 负载数据
+ * @param options 校验选项
+ * @throws {MalformedTokenError} 如果时间类声明不是数字
+ * @throws {TokenExpiredError} 如果令牌已过期
+ * @throws {TokenNotYetValidError} 如果令牌尚未生效
+ * @throws {InvalidIssuedAtError} 如果 iat 晚于当前时间，或设置了 maxTokenAge 但令牌没有 iat
+ * @throws {TokenTooOldError} 如果令牌签发时间（或 auth_time）超过 maxTokenAge
+ * @throws {InvalidIssuerError} 如果签发者不符
+ * @throws {InvalidAudienceError} 如果受众不符
+ * @throws {MissingSubjectError} 如果要求 sub 但令牌没有
+ */
+export const validateClaims = (
+  payload: JWTPayload,
+  options: JWTClaimsValidation
+): void => {
+  const now = Math.floor(Date.now() / 1000)
+  const leeway = options.leeway ?? 0
+
+  const exp = numericClaim(payload, 'exp')
+  if (exp !== undefined && exp + leeway <= now) {
+    throw new TokenExpiredError()
+  }
+  const nbf = numericClaim(payload, 'nbf')
+  if (nbf !== undefined && nbf - leeway > now) {
+    throw new TokenNotYetValidError()
+  }
+  const iat = numericClaim(payload, 'iat')
+  if (iat !== undefined && iat - leeway > now) {
+    throw new InvalidIssuedAtError('Token issued in the future')
+  }
+  if (options.maxTokenAge !== undefined) {
+    if (iat === undefined) {
+      throw new InvalidIssuedAtError('Token issued at is required')
+    }
+    const authTime = numericClaim(payload, 'auth_time')
+    if (now - (authTime ?? iat) > options.maxTokenAge + leeway) {
+      throw new TokenTooOldError()
+    }
+  }
+
+  if (options.issuer !== undefined) {
+    const issuers = toArray(options.issuer)
+    if (typeof payload.iss !== 'string' || !issuers.includes(payload.iss)) {
+      throw new InvalidIssuerError()
+    }
+  }
+  if (options.audience !== undefined) {
+    const audiences = toArray(options.audience)
+    if (
+      !toArray(payload.aud).some(
+        (aud) => typeof aud === 'string' && audiences.includes(aud)
+      )
+    ) {
+      throw new InvalidAudienceError()
+    }
+  }
+  if (
+    options.requireSubject &&
+    (typeof payload.sub !== 'string' || !payload.sub)
+  ) {
+    throw new MissingSubjectError()
+  }
+}
+
+/**
+ * 使用校验器校验负载数据
+ * @param payload JWT 负载数据
+ * @param validate 校验函数或 Standard Schema 对象，省略时不校验
+ * @returns 校验后的负载数据
+ * @throws {InvalidPayloadError} 如果校验失败
+ */
+export const validatePayload = async <T extends JWTPayload>(
+  payload: JWTPayload,
+  validate: JWTPayloadValidator<T> | undefined
+): Promise<T> => {
+  if (!validate) {
+    return payload as T
+  }
+  let result: StandardSchemaV1Result<T>
+  try {
+    if (typeof validate === 'function') {
+      return await validate(payload)
+    }
+    result = await validate['~standard'].validate(payload)
+  } catch (error) {
+    // 校验函数或 Standard Schema 抛出的异常同样视为负载无效
+    throw new InvalidPayloadError(
+      error instanceof Error ? error.message : undefined
+    )
+  }
+  if (result.issues) {
+    throw new InvalidPayloadError(
+      result.issues.map((issue) => issue.message).join('; ')
+    )
+  }
+  return result.value
+}
@@ -0,0 +1,238 @@
+/**
+ * DPoP 模块，实现 RFC 9449 的持有证明（Demonstrating Proof of Possession）。
+ * 签发令牌时通过 cnf.jkt 将令牌绑定到客户端公钥，客户端每次请求时用私钥签名一个 DPoP 证明，
+ * 中间件校验证明的签名、htm、htu、iat、jti 和 ath，泄露的令牌没有私钥无法被重放。
+ *
+ * @example
+ * ```ts
+ * import { Hono } from "hono";
+ * import { computeJWKThumbprint, createJWTMiddleware, DefaultJWTService } from "@aiho/hono/jwt";
+ *
+ * const jwtService = new DefaultJWTService({ secret: "your-secret-key" });
+ * const app = new Hono();
+ *
+ * // 登录时将令牌绑定到客户端在 DPoP 证明头部中提供的公钥
+ * app.post("/login", async (c) => {
+ *   const { jwk } = JSON.parse(atob(c.req.header("DPoP")!.split(".")[0]));
+ *   const token = await jwtService.sign({ sub: "123" }, { jkt: await computeJWKThumbprint(jwk) });
+ *   return c.json({ access_token: token, token_type: "DPoP" });
+ * });
+ *
+ * // 客户端使用 Authorization: DPoP <token> 和 DPoP: <proof> 请求
+ * app.get("/api/me", createJWTMiddleware(jwtService.verify.bind(jwtService), { dpop: true }), (c) => {
+ *   return c.json(c.get("jwtPayload"));
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { Context } from 'hono'
+import { toBase64Url } from '../utils.ts'
+import { InvalidDPoPProofError } from './errors.ts'
+import {
+  ASYMMETRIC_ALGORITHMS,
+  decodeJWT,
+  pickPublicMembers,
+  verifyJWTSignature
+} from './jws.ts'
+import type { DecodedJWT } from './jws.ts'
+import { MemoryDPoPReplayCache } from './stores.ts'
+import type {
+  DPoPOptions,
+  DPoPReplayCache,
+  JWTAlgorithm,
+  JWTPayload
+} from './types.ts'
+
+/** 各密钥类型计算指纹时需要的参数（RFC 7638），按字典序排列 */
+const THUMBPRINT_MEMBERS: Record<string, string[]> = {
+  EC: ['crv', 'kty', 'x', 'y'],
+  OKP: ['crv', 'kty', 'x'],
+  RSA: ['e', 'kty', 'n']
+}
+
+const encoder = new TextEncoder()
+
+/**
+ * 计算 JWK 指纹（RFC 7638，SHA-256）
+ * 结果用作令牌的 cnf.jkt，与 DPoP 证明头部中的公钥对应
+ *
+ * @param jwk 公钥或私钥 JWK，私钥参数会被忽略
+ * @returns base64url 编码的指纹
+ * @throws {InvalidDPoPProofError} 如果密钥类型不受支持或缺少必要的参数
+ *
+ * @example
+ * ```ts
+ * import { computeJWKThumbprint } from "@aiho/hono/jwt";
+ *
+ * const { publicKey } = await crypto.subtle.generateKey(
+ *   { name: "ECDSA", namedCurve: "P-256" },
+ *   true,
+ *   ["sign", "verify"]
+ * );
+ * const jkt = await computeJWKThumbprint(await crypto.subtle.exportKey("jwk", publicKey));
+ * ```
+ */
+export const computeJWKThumbprint = async (
+  jwk: JsonWebKey
+): Promise<string> => {
+  const members = jwk.kty ? THUMBPRINT_MEMBERS[jwk.kty] : undefined
+  if (!members) {
+    throw new InvalidDPoPProofError('Unsupported DPoP key type')
+  }
+  const required: Record<string, unknown> = {}
+  for (const member of members) {
+    const value = jwk[member as keyof JsonWebKey]
+    if (typeof value !== 'string') {
+      throw new InvalidDPoPProofError(`DPoP key is missing ${member}`)
+    }
+    required[member] = value
+  }
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    encoder.encode(JSON.stringify(required))
+  )
+  return toBase64Url(new Uint8Array(digest))
+}
+
+/**
+ * 将地址规范化为不含查询参数和片段的形式
+ * @param url 地址
+ * @returns 规范化后的地址，无法解析时返回 null
+ */
+const normalizeUrl = (url: string): string | null => {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.origin}${parsed.pathname}`
+  } catch (_) {
+    return null
+  }
+}
+
+/**
+ * 创建 DPoP 校验函数
+ * 返回的函数在令牌验证通过后调用，校验请求的 DPoP 证明并确认令牌与证明的公钥绑定。
+ * 校验函数接收令牌所使用的认证方案，绑定了 DPoP 密钥的令牌必须通过 Authorization: DPoP 发送（RFC 9449 第 7.2 节）
+ *
+ * @param options DPoP 配置
+ * @returns 校验函数
+ */
+export const createDPoPValidator = (
+  options: DPoPOptions
+): ((
+  c: Context,
+  token: string,
+  payload: JWTPayload,
+  scheme: string | null
+) => Promise<void>) => {
+  const algorithms = (options.algorithms || ASYMMETRIC_ALGORITHMS).filter(
+    (algorithm) => ASYMMETRIC_ALGORITHMS.includes(algorithm)
+  )
+  const maxAge = options.maxAge ?? 60
+  const leeway = options.leeway ?? 0
+  const replayCache: DPoPReplayCache =
+    options.replayCache || new MemoryDPoPReplayCache()
+  const getUrl = options.getUrl || ((c: Context) => c.req.url)
+
+  /**
+   * 校验 DPoP 证明
+   * @param c Hono 上下文
+   * @param proof DPoP 证明
+   * @param token 访问令牌
+   * @returns 证明公钥的指纹
+   * @throws {InvalidDPoPProofError} 如果证明无效或已被使用
+   */
+  const verifyProof = async (
+    c: Context,
+    proof: string,
+    token: string
+  ): Promise<string> => {
+    let jwt: DecodedJWT
+    try {
+      jwt = decodeJWT(proof, 'dpop+jwt')
+    } catch (_) {
+      throw new InvalidDPoPProofError('Malformed DPoP proof')
+    }
+    const algorithm = jwt.header.alg as JWTAlgorithm
+    if (!algorithms.includes(algorithm)) {
+      throw new InvalidDPoPProofError('DPoP proof algorithm is not allowed')
+    }
+    const jwk = jwt.header.jwk as JsonWebKey | undefined
+    if (!jwk || typeof jwk !== 'object' || jwk.d !== undefined) {
+      throw new InvalidDPoPProofError('DPoP proof must contain a public jwk')
+    }
+    try {
+      await verifyJWTSignature(jwt, [
+        { algorithm, key: pickPublicMembers(jwk) }
+      ])
+    } catch (_) {
+      throw new InvalidDPoPProofError('Invalid DPoP proof signature')
+    }
+
+    const { htm, htu, iat, jti, ath } = jwt.payload
+    if (htm !== c.req.method) {
+      throw new InvalidDPoPProofError('DPoP proof htm does not match')
+    }
+    if (
+      typeof htu !== 'string' ||
+      normalizeUrl(htu) === null ||
+      normalizeUrl(htu) !== normalizeUrl(getUrl(c))
+    ) {
+      throw new InvalidDPoPProofError('DPoP proof htu does not match')
+    }
+    const now = Math.floor(Date.now() / 1000)
+    if (
+      typeof iat !== 'number' ||
+      iat - leeway > now ||
+      now - iat > maxAge + leeway
+    ) {
+      throw new InvalidDPoPProofError('DPoP proof iat is out of range')
+    }
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(token))
+    if (ath !== toBase64Url(new Uint8Array(digest))) {
+      throw new InvalidDPoPProofError('DPoP proof ath does not match')
+    }
+    if (typeof jti !== 'string' || !jti) {
+      throw new InvalidDPoPProofError('DPoP proof jti is required')
+    }
+    if (!(await replayCache.use(jti, (iat + maxAge + leeway) * 1000))) {
+      throw new InvalidDPoPProofError('DPoP proof has already been used')
+    }
+    return await computeJWKThumbprint(jwk)
+  }
+
+  return async (
+    c: Context,
+    token: string,
+    payload: JWTPayload,
+    scheme: string | null
+  ) => {
+    const cnf = payload.cnf as { jkt?: unknown } | undefined
+    const jkt = cnf && typeof cnf === 'object' ? cnf.jkt : undefined
+    if (jkt === undefined) {
+      if (options.required) {
+        throw new InvalidDPoPProofError('Token is not bound to a DPoP key')
+      }
+      return
+    }
+    // 绑定的令牌以 Bearer 方式（或从 cookie、查询参数）发送时必须拒绝
+    if (scheme?.toLowerCase() !== 'dpop') {
+      throw new InvalidDPoPProofError(
+        'DPoP-bound token must use the DPoP authorization scheme'
+      )
+    }
+
+    const proof = c.req.header('DPoP')
+    if (!proof) {
+      throw new InvalidDPoPProofError('DPoP proof is required')
+    }
+    // 多个 DPoP 请求头会被合并为以逗号分隔的值
+    if (proof.includes(',')) {
+      throw new InvalidDPoPProofError('Only one DPoP proof is allowed')
+    }
+    if ((await verifyProof(c, proof.trim(), token)) !== jkt) {
+      throw new InvalidDPoPProofError('DPoP proof key does not match the token')
+    }
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * JWT 错误模块，定义了 JWT 服务抛出的错误类型。
+ * 所有错误都继承自 JWTError，可以通过 instanceof 区分具体原因。
+ *
+ * @example
+ * ```ts
+ * import { DefaultJWTService, RefreshTokenReuseError } from "@aiho/hono/jwt";
+ *
+ * try {
+ *   const tokens = await jwtService.refresh(refreshToken);
+ * } catch (error) {
+ *   if (error instanceof RefreshTokenReuseError) {
+ *     // 刷新令牌被重放，整个令牌家族已被吊销，需要重新登录
+ *   }
+ * }
+ * ```
+ *
+ * @module
+ */
+
+/**
+ * JWT 错误基类
+ */
+export class JWTError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JWTError'
+  }
+}
+
+/**
+ * 刷新令牌无效：签名错误、已过期、类型不符、所属家族不存在或已被吊销
+ */
+export class InvalidRefreshTokenError extends JWTError {
+  constructor(message: string = 'Invalid refresh token') {
+    super(message)
+    this.name = 'InvalidRefreshTokenError'
+  }
+}
+
+/**
+ * 刷新令牌被重复使用
+ * 已被轮换的旧刷新令牌再次出现，说明令牌可能已泄露，所属家族会被整体吊销
+ */
+export class RefreshTokenReuseError extends JWTError {
+  constructor(message: string = 'Refresh token reuse detected') {
+    super(message)
+    this.name = 'RefreshTokenReuseError'
+  }
+}
+
+/**
+ * 令牌类型不符，例如将刷新令牌当作访问令牌使用
+ */
+export class InvalidTokenTypeError extends JWTError {
+  constructor(message: string = 'Invalid token type') {
+    super(message)
+    this.name = 'InvalidTokenTypeError'
+  }
+}
+
+/**
+ * 令牌格式不正确，无法解析头部或负载
+ */
+export class MalformedTokenError extends JWTError {
+  constructor(message: string = 'Malformed token') {
+    super(message)
+    this.name = 'MalformedTokenError'
+  }
+}
+
+/**
+ * 令牌签名无效，或找不到可以验证该令牌的密钥
+ */
+export class InvalidSignatureError extends JWTError {
+  constructor(message: string = 'Invalid token signature') {
+    super(message)
+    this.name = 'InvalidSignatureError'
+  }
+}
+
+/**
+ * 令牌已过期（exp）
+ */
+export class TokenExpiredError extends JWTError {
+  constructor(message: string = 'Token expired') {
+    super(message)
+    this.name = 'TokenExpiredError'
+  }
+}
+
+/**
+ * 令牌尚未生效（nbf）
+ */
+export class TokenNotYetValidError extends JWTError {
+  constructor(message: string = 'Token not yet valid') {
+    super(message)
+    this.name = 'TokenNotYetValidError'
+  }
+}
+
+/**
+ * 令牌的签发时间（iat）无效：晚于当前时间，或在要求时缺失
+ */
+export class InvalidIssuedAtError extends JWTError {
+  constructor(message: string = 'Invalid token issued at') {
+    super(message)
+    this.name = 'InvalidIssuedAtError'
+  }
+}
+
+/**
+ * 令牌签发时间超过了允许的最大时长
+ */
+export class TokenTooOldError extends JWTError {
+  constructor(message: string = 'Token exceeds maximum age') {
+    super(message)
+    this.name = 'TokenTooOldError'
+  }
+}
+
+/**
+ * 令牌已被吊销
+ */
+export class TokenRevokedError extends JWTError {
+  constructor(message: string = 'Token revoked') {
+    super(message)
+    this.name = 'TokenRevokedError'
+  }
+}
+
+/**
+ * 令牌缺少主题（sub）
+ */
+export class MissingSubjectError extends JWTError {
+  constructor(message: string = 'Token subject is required') {
+    super(message)
+    this.name = 'MissingSubjectError'
+  }
+}
+
+/**
+ * 令牌负载数据未通过校验器的校验
+ */
+export class InvalidPayloadError extends JWTError {
+  constructor(message: string = 'Invalid token payload') {
+    super(message)
+    this.name = 'InvalidPayloadError'
+  }
+}
+
+/**
+ * 令牌的签发者（iss）与预期不符
+ */
+export class InvalidIssuerError extends JWTError {
+  constructor(message: string = 'Invalid token issuer') {
+    super(message)
+    this.name = 'InvalidIssuerError'
+  }
+}
+
+/**
+ * 令牌的受众（aud）与预期不符
+ */
+export class InvalidAudienceError extends JWTError {
+  constructor(message: string = 'Invalid token audience') {
+    super(message)
+    this.name = 'InvalidAudienceError'
+  }
+}
+
+/**
+ * DPoP 证明缺失或无效
+ */
+export class InvalidDPoPProofError extends JWTError {
+  constructor(message: string = 'Invalid DPoP proof') {
+    super(message)
+    this.name = 'InvalidDPoPProofError'
+  }
+}
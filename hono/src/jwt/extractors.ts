@@ -0,0 +1,142 @@
+/**
+ * 令牌提取器模块，提供了从请求头、cookie 和查询参数中读取令牌的提取器。
+ * 提取器通过 JWTMiddlewareOptions.extractors 按顺序传给 createJWTMiddleware，
+ * 也可以传入自定义的提取函数。
+ *
+ * @example
+ * ```ts
+ * import { Hono } from "hono";
+ * import { createJWTMiddleware, fromCookie, fromHeader, fromQuery } from "@aiho/hono/jwt";
+ *
+ * const app = new Hono();
+ *
+ * // 依次尝试 Authorization: Bearer、session cookie 和 ?access_token=
+ * const jwtMiddleware = createJWTMiddleware(jwtService.verify.bind(jwtService), {
+ *   extractors: [fromHeader(), fromCookie("session"), fromQuery("access_token")]
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { Context } from 'hono'
+import { getCookie } from 'hono/cookie'
+import type { HeaderExtractorOptions, TokenExtractor } from './types.ts'
+
+/** RFC 7235 的 token68 语法，JWT 的所有字符都在其中 */
+const TOKEN68_PATTERN = /^[A-Za-z0-9\-._~+/]+=*$/
+
+/**
+ * 解析认证请求头
+ * 要求格式严格为 `<scheme> <token>`，认证方案比较时不区分大小写，令牌必须符合 token68 语法
+ *
+ * @param value 请求头的值
+ * @param scheme 认证方案，默认为 Bearer
+ * @returns 令牌，格式不正确或认证方案不符时返回 null
+ *
+ * @example
+ * ```ts
+ * import { parseBearerToken } from "@aiho/hono/jwt";
+ *
+ * parseBearerToken("Bearer eyJhbGciOi..."); // "eyJhbGciOi..."
+ * parseBearerToken("bearer eyJhbGciOi..."); // "eyJhbGciOi..."
+ * parseBearerToken("Basic dXNlcjpwYXNz"); // null
+ * parseBearerToken("Bearer a b"); // null
+ * ```
+ */
+export const parseBearerToken = (
+  value: string,
+  scheme: string = 'Bearer'
+): string | null => {
+  const match = /^(\S+) +(\S+)$/.exec(value.trim())
+  if (
+    !match ||
+    match[1].toLowerCase() !== scheme.toLowerCase() ||
+    !TOKEN68_PATTERN.test(match[2])
+  ) {
+    return null
+  }
+  return match[2]
+}
+
+/**
+ * 创建从请求头读取令牌的提取器
+ * @param options 提取器配置，默认读取 Authorization: Bearer
+ * @returns 令牌提取器
+ *
+ * @example
+ * ```ts
+ * import { fromHeader } from "@aiho/hono/jwt";
+ *
+ * fromHeader(); // Authorization: Bearer <token>
+ * fromHeader({ header: "X-Access-Token", scheme: null }); // X-Access-Token: <token>
+ * ```
+ */
+export const fromHeader = (
+  options: HeaderExtractorOptions = {}
+): TokenExtractor => {
+  const header = options.header || 'Authorization'
+  const scheme = options.scheme === undefined ? 'Bearer' : options.scheme
+  return (c: Context) => {
+    const value = c.req.header(header)
+    if (!value) {
+      return null
+    }
+    return scheme === null
+      ? value.trim() || null
+      : parseBearerToken(value, scheme)
+  }
+}
+
+/**
+ * 创建从 cookie 读取令牌的提取器
+ * @param name cookie 名称
+ * @returns 令牌提取器
+ *
+ * @example
+ * ```ts
+ * import { fromCookie } from "@aiho/hono/jwt";
+ *
+ * fromCookie("session");
+ * ```
+ */
+export const fromCookie = (name: string): TokenExtractor => {
+  return (c: Context) => getCookie(c, name) || null
+}
+
+/**
+ * 创建从查询参数读取令牌的提取器
+ * 查询参数会出现在访问日志和浏览器历史中，建议只在无法设置请求头的场景（如 WebSocket 握手）使用
+ *
+ * @param name 查询参数名称，默认为 access_token
+ * @returns 令牌提取器
+ *
+ * @example
+ * ```ts
+ * import { fromQuery } from "@aiho/hono/jwt";
+ *
+ * fromQuery(); // ?access_token=<token>
+ * ```
+ */
+export const fromQuery = (name: string = 'access_token'): TokenExtractor => {
+  return (c: Context) => c.req.query(name) || null
+}
+
+/**
+ * 按顺序执行提取器，返回第一个找到的令牌
+ * @param extractors 令牌提取器
+ * @param c Hono 上下文
+ * @returns 令牌，所有来源都没有时返回 null
+ */
+export const extractToken = async (
+  extractors: TokenExtractor[],
+  c: Context
+): Promise<string | null> => {
+  for (const extractor of extractors) {
+    const token = await extractor(c)
+    if (token) {
+      return token
+    }
+  }
+  return null
+}
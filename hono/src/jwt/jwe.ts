@@ -0,0 +1,464 @@
+/**
+ * JWE 模块，提供了签发和验证加密 JWT 的服务。
+ * 令牌使用 JWE 紧凑序列化格式，负载通过 A256GCM 加密，浏览器和记录请求头的代理无法读取其中的数据。
+ * JWEService 实现了 JWTService 接口，可以直接替换 DefaultJWTService 用于 createJWTMiddleware。
+ *
+ * @example
+ * ```ts
+ * import { Hono } from "hono";
+ * import { createJWTMiddleware, JWEService } from "@aiho/hono/jwt";
+ *
+ * const jweService = new JWEService({ secret: Deno.env.get("JWE_SECRET")! });
+ *
+ * const token = await jweService.sign({ sub: "123", tenantId: "t1", email: "user@example.com" });
+ *
+ * const app = new Hono();
+ * app.get("/me", createJWTMiddleware(jweService.verify.bind(jweService)), (c) => {
+ *   return c.json(c.get("jwtPayload"));
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import { fromBase64Url, fromBase64UrlJSON, toBase64Url } from '../utils.ts'
+import { validateClaims, validatePayload } from './claims.ts'
+import {
+  InvalidSignatureError,
+  JWTError,
+  MalformedTokenError
+} from './errors.ts'
+import { pemToBinary, pickPublicMembers } from './jws.ts'
+import type {
+  JWEAlgorithm,
+  JWEConfig,
+  JWTKey,
+  JWTPayload,
+  JWTPayloadValidator,
+  JWTService,
+  JWTSignOptions
+} from './types.ts'
+
+/** 内容加密算法 */
+const CONTENT_ENCRYPTION = 'A256GCM'
+
+/** AES-GCM 认证标签长度(字节) */
+const TAG_LENGTH = 16
+
+const encoder = new TextEncoder()
+
+/**
+ * 导入 256 位内容加密密钥
+ * @param raw 密钥字节
+ * @returns AES-GCM 密钥
+ */
+const importContentKey = async (
+  raw: Uint8Array<ArrayBuffer>
+): Promise<CryptoKey> => {
+  if (raw.length !== 32) {
+    throw new InvalidSignatureError('Invalid content encryption key')
+  }
+  return await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, [
+    'encrypt',
+    'decrypt'
+  ])
+}
+
+/**
+ * JWE 服务
+ * 使用 dir 时所有服务共享同一个内容加密密钥；使用 RSA-OAEP 时每个令牌生成随机的内容加密密钥，
+ * 并用 RSA 公钥包装，只有持有私钥的服务可以解密
+ *
+ * @template T JWT 负载数据类型
+ *
+ * @example 使用 RSA-OAEP
+ * ```ts
+ * import { JWEService } from "@aiho/hono/jwt";
+ *
+ * // 认证服务只持有公钥，只能签发令牌
+ * const issuer = new JWEService({
+ *   algorithm: "RSA-OAEP-256",
+ *   publicKey: Deno.env.get("JWE_PUBLIC_KEY") // SPKI PEM
+ * });
+ * const token = await issuer.sign({ sub: "123", email: "user@example.com" });
+ *
+ * // API 服务持有私钥，解密并验证令牌
+ * const api = new JWEService({
+ *   algorithm: "RSA-OAEP-256",
+ *   privateKey: Deno.env.get("JWE_PRIVATE_KEY") // PKCS#8 PEM
+ * });
+ * const payload = await api.verify(token);
+ * ```
+ */
+export class JWEService<
+  T extends JWTPayload = JWTPayload
+> implements JWTService<T> {
+  private algorithm: JWEAlgorithm
+  private secret: string | JsonWebKey | CryptoKey | undefined
+  private publicKey: JWTKey | undefined
+  private privateKey: JWTKey | undefined
+  private validityPeriod: number
+  private issuer: string | undefined
+  private audience: string | string[] | undefined
+  private requireSubject: boolean
+  private leeway: number
+  private maxTokenAge: number | undefined
+  private validate: JWTPayloadValidator<T> | undefined
+  private contentKey: Promise<CryptoKey> | null = null
+  private encryptionKey: Promise<CryptoKey> | null = null
+  private decryptionKey: Promise<CryptoKey> | null = null
+
+  /**
+   * 创建 JWE 服务实例
+   * @param config JWE 服务配置
+   * @throws {JWTError} 如果使用 dir 时未配置 secret，或使用 RSA-OAEP 时既未配置 privateKey 也未配置 publicKey
+   */
+  constructor(config: JWEConfig<T>) {
+    this.algorithm = config.algorithm || 'dir'
+    this.secret = config.secret
+    this.publicKey = config.publicKey
+    this.privateKey = config.privateKey
+    if (this.algorithm === 'dir' && !this.secret) {
+      throw new JWTError('A secret is required for dir')
+    }
+    if (this.algorithm !== 'dir' && !this.publicKey && !this.privateKey) {
+      throw new JWTError(
+        `A privateKey or publicKey is required for ${this.algorithm}`
+      )
+    }
+    // 默认7天
+    this.validityPeriod = config.validityPeriod || 7 * 24 * 60 * 60
+    this.issuer = config.issuer
+    this.audience = config.audience
+    this.requireSubject = config.requireSubject ?? false
+    this.leeway = config.leeway ?? 0
+    this.maxTokenAge = config.maxTokenAge
+    this.validate = config.validate
+  }
+
+  /**
+   * 签发加密令牌
+   * @param payload JWT 负载数据
+   * @param options 签发选项，可以通过 jkt 将令牌绑定到客户端的 DPoP 公钥，或通过 validityPeriod 指定有效期
+   * @returns JWE 紧凑序列化格式的令牌
+   * @throws {JWTError} 如果使用 RSA-OAEP 且公钥无法从配置中得到
+   */
+  async sign(payload: T, options: JWTSignOptions = {}): Promise<string> {
+    const now = Math.floor(Date.now() / 1000)
+    const claims: JWTPayload = {
+      ...payload,
+      iat: now,
+      jti: crypto.randomUUID(),
+      exp: now + (options.validityPeriod ?? this.validityPeriod)
+    }
+    if (options.jkt !== undefined) {
+      claims.cnf = { ...(payload.cnf as object), jkt: options.jkt }
+    }
+    if (this.issuer !== undefined) {
+      claims.iss = this.issuer
+    }
+    if (this.audience !== undefined) {
+      claims.aud = this.audience
+    }
+
+    const protectedHeader = toBase64Url(
+      encoder.encode(
+        JSON.stringify({
+          alg: this.algorithm,
+          enc: CONTENT_ENCRYPTION,
+          typ: 'JWT'
+        })
+      )
+    )
+    const { key, encryptedKey } = await this.createContentKey()
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const encrypted = new Uint8Array(
+      await crypto.subtle.encrypt(
+        {
+          name: 'AES-GCM',
+          iv,
+          additionalData: encoder.encode(protectedHeader)
+        },
+        key,
+        encoder.encode(JSON.stringify(claims))
+      )
+    )
+    return [
+      protectedHeader,
+      toBase64Url(encryptedKey),
+      toBase64Url(iv),
+      toBase64Url(encrypted.slice(0, -TAG_LENGTH)),
+      toBase64Url(encrypted.slice(-TAG_LENGTH))
+    ].join('.')
+  }
+
+  /**
+   * 解密并验证令牌
+   * @param token JWE 紧凑序列化格式的令牌
+   * @returns JWT 负载数据
+   * @throws {MalformedTokenError} 如果令牌格式不正确
+   * @throws {InvalidSignatureError} 如果算法不符或解密失败（令牌被篡改或密钥不匹配）
+   * @throws {JWTError} 如果使用 RSA-OAEP 且未配置 privateKey
+   * @throws {TokenExpiredError} 如果令牌已过期，其他声明校验失败时抛出对应的错误
+   * @throws {InvalidPayloadError} 如果负载数据未通过校验器的校验
+   */
+  async verify(token: string): Promise<T> {
+    const parts = token.split('.')
+    if (parts.length !== 5) {
+      throw new MalformedTokenError()
+    }
+    const protectedHeader = parts[0]
+    let header: Record<string, unknown> | null
+    let encryptedKey: Uint8Array<ArrayBuffer>
+    let iv: Uint8Array<ArrayBuffer>
+    let encrypted: Uint8Array<ArrayBuffer>
+    try {
+      header = fromBase64UrlJSON(protectedHeader)
+      encryptedKey = fromBase64Url(parts[1])
+      iv = fromBase64Url(parts[2])
+      const ciphertext = fromBase64Url(parts[3])
+      const tag = fromBase64Url(parts[4])
+      encrypted = new Uint8Array(ciphertext.length + tag.length)
+      encrypted.set(ciphertext)
+      encrypted.set(tag, ciphertext.length)
+    } catch (_) {
+      throw new MalformedTokenError()
+    }
+    if (
+      !header ||
+      header.enc !== CONTENT_ENCRYPTION ||
+      header.zip !== undefined ||
+      header.crit !== undefined ||
+      (header.typ !== undefined && header.typ !== 'JWT')
+    ) {
+      throw new MalformedTokenError()
+    }
+    if (header.alg !== this.algorithm) {
+      throw new InvalidSignatureError('Token algorithm is not allowed')
+    }
+
+    // 密钥导入失败属于配置错误，不作为令牌无效处理
+    const decryptionKey =
+      this.algorithm === 'dir'
+        ? await this.getContentKey()
+        : await this.getDecryptionKey()
+    let plaintext: ArrayBuffer
+    try {
+      const key = await this.unwrapContentKey(encryptedKey, decryptionKey)
+      plaintext = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv,
+          additionalData: encoder.encode(protectedHeader)
+        },
+        key,
+        encrypted
+      )
+    } catch (error) {
+      if (error instanceof JWTError) {
+        throw error
+      }
+      throw new InvalidSignatureError('Token decryption failed')
+    }
+
+    let payload: unknown
+    try {
+      payload = JSON.parse(new TextDecoder().decode(plaintext))
+    } catch (_) {
+      throw new MalformedTokenError()
+    }
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      throw new MalformedTokenError()
+    }
+    validateClaims(payload as JWTPayload, {
+      issuer: this.issuer,
+      audience: this.audience,
+      requireSubject: this.requireSubject,
+      leeway: this.leeway,
+      maxTokenAge: this.maxTokenAge
+    })
+    return await validatePayload(payload as JWTPayload, this.validate)
+  }
+
+  /**
+   * 获取令牌有效期
+   * @returns 有效期(秒)
+   */
+  getValidityPeriod(): number {
+    return this.validityPeriod
+  }
+
+  /**
+   * 生成加密负载用的内容加密密钥
+   * dir 直接使用共享密钥，RSA-OAEP 生成随机密钥并用公钥包装
+   * @returns 内容加密密钥和包装后的密钥（dir 时为空）
+   * @private
+   */
+  private async createContentKey(): Promise<{
+    key: CryptoKey
+    encryptedKey: Uint8Array
+  }> {
+    if (this.algorithm === 'dir') {
+      return { key: await this.getContentKey(), encryptedKey: new Uint8Array() }
+    }
+    const raw = crypto.getRandomValues(new Uint8Array(32))
+    const encryptedKey = await crypto.subtle.encrypt(
+      { name: 'RSA-OAEP' },
+      await this.getEncryptionKey(),
+      raw
+    )
+    return {
+      key: await importContentKey(raw),
+      encryptedKey: new Uint8Array(encryptedKey)
+    }
+  }
+
+  /**
+   * 得到解密负载用的内容加密密钥
+   * @param encryptedKey 令牌中包装后的密钥
+   * @param key dir 时为共享密钥，RSA-OAEP 时为解包用的私钥
+   * @returns 内容加密密钥
+   * @throws {MalformedTokenError} 如果使用 dir 但令牌包含包装后的密钥
+   * @private
+   */
+  private async unwrapContentKey(
+    encryptedKey: Uint8Array<ArrayBuffer>,
+    key: CryptoKey
+  ): Promise<CryptoKey> {
+    if (this.algorithm === 'dir') {
+      if (encryptedKey.length) {
+        throw new MalformedTokenError()
+      }
+      return key
+    }
+    const raw = await crypto.subtle.decrypt(
+      { name: 'RSA-OAEP' },
+      key,
+      encryptedKey
+    )
+    return await importContentKey(new Uint8Array(raw))
+  }
+
+  /**
+   * 获取 dir 使用的共享内容加密密钥
+   * @returns AES-GCM 密钥
+   * @private
+   */
+  private getContentKey(): Promise<CryptoKey> {
+    if (!this.contentKey) {
+      const secret = this.secret!
+      this.contentKey =
+        secret instanceof CryptoKey
+          ? Promise.resolve(secret)
+          : typeof secret === 'string'
+            ? crypto.subtle
+                .digest('SHA-256', encoder.encode(secret))
+                .then((digest) => importContentKey(new Uint8Array(digest)))
+            : crypto.subtle.importKey('jwk', secret, 'AES-GCM', false, [
+                'encrypt',
+                'decrypt'
+              ])
+      // 导入失败时不缓存，下次调用重新导入
+      this.contentKey.catch(() => {
+        this.contentKey = null
+      })
+    }
+    return this.contentKey
+  }
+
+  /**
+   * 获取包装内容加密密钥用的 RSA 公钥，未配置 publicKey 时从 privateKey 推导
+   * @returns RSA-OAEP 公钥
+   * @private
+   */
+  private getEncryptionKey(): Promise<CryptoKey> {
+    if (!this.encryptionKey) {
+      this.encryptionKey = this.importRSAKey(
+        this.publicKey ?? this.privateKey!,
+        'encrypt'
+      )
+      this.encryptionKey.catch(() => {
+        this.encryptionKey = null
+      })
+    }
+    return this.encryptionKey
+  }
+
+  /**
+   * 获取解包内容加密密钥用的 RSA 私钥
+   * @returns RSA-OAEP 私钥
+   * @throws {JWTError} 如果未配置 privateKey
+   * @private
+   */
+  private getDecryptionKey(): Promise<CryptoKey> {
+    if (!this.privateKey) {
+      throw new JWTError(
+        `A privateKey is required to decrypt ${this.algorithm}`
+      )
+    }
+    if (!this.decryptionKey) {
+      this.decryptionKey = this.importRSAKey(this.privateKey, 'decrypt')
+      this.decryptionKey.catch(() => {
+        this.decryptionKey = null
+      })
+    }
+    return this.decryptionKey
+  }
+
+  /**
+   * 导入 RSA-OAEP 密钥
+   * 用于加密时，私钥会先转换为对应的公钥
+   * @param key PEM 字符串、JWK 对象或 CryptoKey
+   * @param usage 密钥用途
+   * @returns CryptoKey
+   * @private
+   */
+  private async importRSAKey(
+    key: JWTKey,
+    usage: 'encrypt' | 'decrypt'
+  ): Promise<CryptoKey> {
+    const params = {
+      name: 'RSA-OAEP',
+      hash: this.algorithm === 'RSA-OAEP-256' ? 'SHA-256' : 'SHA-1'
+    }
+    if (key instanceof CryptoKey) {
+      if (usage === 'decrypt' || key.type === 'public') {
+        return key
+      }
+      key = await crypto.subtle.exportKey('jwk', key)
+    }
+    if (typeof key === 'object') {
+      const jwk = usage === 'encrypt' ? pickPublicMembers(key) : key
+      return await crypto.subtle.importKey('jwk', jwk, params, false, [usage])
+    }
+    if (!key.includes('PRIVATE')) {
+      return await crypto.subtle.importKey(
+        'spki',
+        pemToBinary(key),
+        params,
+        false,
+        [usage]
+      )
+    }
+    if (usage === 'decrypt') {
+      return await crypto.subtle.importKey(
+        'pkcs8',
+        pemToBinary(key),
+        params,
+        false,
+        [usage]
+      )
+    }
+    const privateKey = await crypto.subtle.importKey(
+      'pkcs8',
+      pemToBinary(key),
+      params,
+      true,
+      ['decrypt']
+    )
+    return await this.importRSAKey(
+      await crypto.subtle.exportKey('jwk', privateKey),
+      usage
+    )
+  }
+}
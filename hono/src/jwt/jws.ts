@@ -0,0 +1,355 @@
+/**
+ * JWS 模块，基于 WebCrypto 实现 JWT 的签名、签名验证和密钥转换。
+ * 与 hono/jwt 不同，签名时可以在头部写入任意密钥的 kid，供密钥环和 JWKS 使用；
+ * 验证时只校验签名，声明的校验由 claims 模块负责，以便支持时钟偏差等选项。
+ *
+ * 该模块为 JWT 模块的内部实现，不对外导出。
+ *
+ * @module
+ */
+
+import { fromBase64Url, fromBase64UrlJSON, toBase64Url } from '../utils.ts'
+import { InvalidSignatureError, MalformedTokenError } from './errors.ts'
+import type { JWK, JWTAlgorithm, JWTKey, JWTPayload } from './types.ts'
+
+/** 解码后的 JWT */
+export interface DecodedJWT {
+  /** 头部 */
+  header: Record<string, unknown>
+  /** 负载 */
+  payload: JWTPayload
+  /** 被签名的内容，即 `<header>.<payload>` */
+  signingInput: string
+  /** 签名 */
+  signature: Uint8Array<ArrayBuffer>
+}
+
+/** 用于验证签名的算法和密钥 */
+export interface JWTVerifier {
+  /** 签名算法 */
+  algorithm: JWTAlgorithm
+  /** 验证密钥 */
+  key: JWTKey
+}
+
+/** WebCrypto 算法参数，同时用于导入密钥和签名 */
+type AlgorithmParams = Algorithm & {
+  hash?: string
+  namedCurve?: string
+  saltLength?: number
+}
+
+/** 各签名算法对应的 WebCrypto 参数 */
+const ALGORITHM_PARAMS: Record<JWTAlgorithm, AlgorithmParams> = {
+  HS256: { name: 'HMAC', hash: 'SHA-256' },
+  HS384: { name: 'HMAC', hash: 'SHA-384' },
+  HS512: { name: 'HMAC', hash: 'SHA-512' },
+  RS256: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  RS384: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+  RS512: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+  PS256: { name: 'RSA-PSS', hash: 'SHA-256', saltLength: 32 },
+  PS384: { name: 'RSA-PSS', hash: 'SHA-384', saltLength: 48 },
+  PS512: { name: 'RSA-PSS', hash: 'SHA-512', saltLength: 64 },
+  ES256: { name: 'ECDSA', hash: 'SHA-256', namedCurve: 'P-256' },
+  ES384: { name: 'ECDSA', hash: 'SHA-384', namedCurve: 'P-384' },
+  ES512: { name: 'ECDSA', hash: 'SHA-512', namedCurve: 'P-521' },
+  EdDSA: { name: 'Ed25519' }
+}
+
+/** 所有非对称签名算法 */
+export const ASYMMETRIC_ALGORITHMS: JWTAlgorithm[] = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+  'EdDSA'
+]
+
+/** 公钥 JWK 中需要保留的参数 */
+const PUBLIC_JWK_MEMBERS = ['kty', 'crv', 'x', 'y', 'n', 'e'] as const
+
+const encoder = new TextEncoder()
+
+/**
+ * 判断算法是否为对称算法（HS 系列）
+ * @param algorithm 签名算法
+ * @returns 是否为对称算法
+ */
+export const isSymmetricAlgorithm = (algorithm: JWTAlgorithm): boolean =>
+  algorithm.startsWith('HS')
+
+/**
+ * 将 PEM 字符串转换为 DER 字节
+ * @param pem PEM 字符串
+ * @returns DER 字节
+ */
+export const pemToBinary = (pem: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(
+    pem.replace(/-+(BEGIN|END)[^-]*-+/g, '').replace(/\s/g, '')
+  )
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/**
+ * 导入签名用的密钥
+ * @param key PEM 私钥、JWK 对象、CryptoKey 或 HS 系列算法的密钥字符串
+ * @param algorithm 签名算法
+ * @returns CryptoKey
+ */
+const importSigningKey = async (
+  key: JWTKey,
+  algorithm: JWTAlgorithm
+): Promise<CryptoKey> => {
+  if (key instanceof CryptoKey) {
+    return key
+  }
+  const params = ALGORITHM_PARAMS[algorithm]
+  if (typeof key === 'object') {
+    return await crypto.subtle.importKey('jwk', key, params, false, ['sign'])
+  }
+  // HS 系列算法的密钥字符串可能恰好包含 "PRIVATE"，需先按算法判断
+  if (isSymmetricAlgorithm(algorithm)) {
+    return await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(key),
+      params,
+      false,
+      ['sign']
+    )
+  }
+  return await crypto.subtle.importKey(
+    'pkcs8',
+    pemToBinary(key),
+    params,
+    false,
+    ['sign']
+  )
+}
+
+/**
+ * 签发 JWT
+ * @param payload JWT 负载数据
+ * @param key 签名密钥
+ * @param algorithm 签名算法
+ * @param kid 写入头部的密钥 ID，省略时不写入
+ * @returns JWT 令牌
+ */
+export const signJWT = async (
+  payload: JWTPayload,
+  key: JWTKey,
+  algorithm: JWTAlgorithm,
+  kid?: string
+): Promise<string> => {
+  const header = kid
+    ? { alg: algorithm, typ: 'JWT', kid }
+    : { alg: algorithm, typ: 'JWT' }
+  const signingInput = `${toBase64Url(
+    encoder.encode(JSON.stringify(header))
+  )}.${toBase64Url(encoder.encode(JSON.stringify(payload)))}`
+  const signature = await crypto.subtle.sign(
+    ALGORITHM_PARAMS[algorithm],
+    await importSigningKey(key, algorithm),
+    encoder.encode(signingInput)
+  )
+  return `${signingInput}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+/**
+ * 规范化媒体类型，去掉 application/ 前缀并转为小写
+ * @param type 媒体类型
+ * @returns 规范化后的媒体类型
+ */
+const normalizeType = (type: string): string =>
+  type.toLowerCase().replace(/^application\//, '')
+
+/**
+ * 检查头部 typ 是否被允许
+ * @param value 头部 typ
+ * @param typ 要求的 typ，含义同 decodeJWT
+ * @returns 是否允许
+ */
+const isAllowedType = (value: unknown, typ?: string | string[]): boolean => {
+  if (typ === undefined) {
+    return value === undefined || value === 'JWT'
+  }
+  if (typeof typ === 'string') {
+    return value === typ
+  }
+  const allowed = typ.map(normalizeType)
+  if (value === undefined) {
+    return allowed.includes('jwt')
+  }
+  return typeof value === 'string' && allowed.includes(normalizeType(value))
+}
+
+/**
+ * 解码 JWT，不验证签名和声明
+ * @param token JWT 令牌字符串
+ * @param typ 要求的头部 typ，省略时允许 typ 为 JWT 或不存在；
+ * 传入数组时允许其中任意一个（按 RFC 7515 不区分大小写，可省略 application/ 前缀），数组包含 JWT 时也允许 typ 不存在
+ * @returns 解码后的 JWT
+ * @throws {MalformedTokenError} 如果令牌格式不正确
+ */
+export const decodeJWT = (
+  token: string,
+  typ?: string | string[]
+): DecodedJWT => {
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    throw new MalformedTokenError()
+  }
+  try {
+    const header = fromBase64UrlJSON(parts[0])
+    const payload = fromBase64UrlJSON(parts[1])
+    if (
+      !header ||
+      !payload ||
+      typeof header.alg !== 'string' ||
+      !isAllowedType(header.typ, typ)
+    ) {
+      throw new MalformedTokenError()
+    }
+    return {
+      header,
+      payload,
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: fromBase64Url(parts[2])
+    }
+  } catch (_) {
+    throw new MalformedTokenError()
+  }
+}
+
+/**
+ * 导入验证用的密钥
+ * 非对称私钥会先转换为对应的公钥
+ * @param key PEM 字符串、JWK 对象、CryptoKey 或 HS 系列算法的密钥字符串
+ * @param algorithm 签名算法
+ * @returns CryptoKey
+ */
+const importVerificationKey = async (
+  key: JWTKey,
+  algorithm: JWTAlgorithm
+): Promise<CryptoKey> => {
+  if (key instanceof CryptoKey && key.type !== 'private') {
+    return key
+  }
+  const params = ALGORITHM_PARAMS[algorithm]
+  if (typeof key === 'string' && isSymmetricAlgorithm(algorithm)) {
+    return await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(key),
+      params,
+      false,
+      ['verify']
+    )
+  }
+  if (typeof key === 'string' && !key.includes('PRIVATE')) {
+    return await crypto.subtle.importKey(
+      'spki',
+      pemToBinary(key),
+      params,
+      false,
+      ['verify']
+    )
+  }
+  const jwk =
+    typeof key === 'object' && !(key instanceof CryptoKey)
+      ? isSymmetricAlgorithm(algorithm)
+        ? key
+        : pickPublicMembers(key)
+      : await exportPublicJWK(key, algorithm)
+  return await crypto.subtle.importKey('jwk', jwk, params, false, ['verify'])
+}
+
+/**
+ * 验证 JWT 签名
+ * 依次尝试所有与令牌头部 alg 一致的密钥，任意一个验证通过即可
+ * @param jwt 解码后的 JWT
+ * @param verifiers 可用的算法和验证密钥
+ * @throws {InvalidSignatureError} 如果没有匹配的密钥或签名与所有密钥都不匹配
+ */
+export const verifyJWTSignature = async (
+  jwt: DecodedJWT,
+  verifiers: JWTVerifier[]
+): Promise<void> => {
+  const candidates = verifiers.filter(
+    (verifier) => verifier.algorithm === jwt.header.alg
+  )
+  if (!candidates.length) {
+    throw new InvalidSignatureError('No verification key matches the token')
+  }
+  for (const { algorithm, key } of candidates) {
+    const verified = await crypto.subtle.verify(
+      ALGORITHM_PARAMS[algorithm],
+      await importVerificationKey(key, algorithm),
+      jwt.signature,
+      encoder.encode(jwt.signingInput)
+    )
+    if (verified) {
+      return
+    }
+  }
+  throw new InvalidSignatureError()
+}
+
+/**
+ * 从私钥得到可用于验证的密钥
+ * PEM 字符串和可导出的 CryptoKey 在验证时才推导公钥，JWK 对象需要移除私钥参数
+ * @param privateKey 私钥
+ * @returns 验证用的密钥
+ */
+export const toVerificationKey = (privateKey: JWTKey): JWTKey => {
+  if (typeof privateKey === 'string' || privateKey instanceof CryptoKey) {
+    return privateKey
+  }
+  return pickPublicMembers(privateKey)
+}
+
+/**
+ * 只保留 JWK 中的公钥参数
+ * @param jwk JWK 对象
+ * @returns 公钥 JWK
+ */
+export const pickPublicMembers = (jwk: JsonWebKey): JWK => {
+  const publicJwk: Record<string, unknown> = {}
+  for (const member of PUBLIC_JWK_MEMBERS) {
+    if (jwk[member] !== undefined) {
+      publicJwk[member] = jwk[member]
+    }
+  }
+  return publicJwk as JWK
+}
+
+/**
+ * 将非对称密钥转换为可公开的 JWK
+ * @param key PEM 字符串、JWK 对象或 CryptoKey，私钥会被转换为对应的公钥
+ * @param algorithm 签名算法
+ * @returns 只包含公钥参数的 JWK
+ * @throws 如果密钥是不可导出的 CryptoKey 私钥
+ */
+export const exportPublicJWK = async (
+  key: JWTKey,
+  algorithm: JWTAlgorithm
+): Promise<JWK> => {
+  if (key instanceof CryptoKey) {
+    return pickPublicMembers(await crypto.subtle.exportKey('jwk', key))
+  }
+  if (typeof key === 'object') {
+    return pickPublicMembers(key)
+  }
+  const isPrivate = key.includes('PRIVATE')
+  const cryptoKey = await crypto.subtle.importKey(
+    isPrivate ? 'pkcs8' : 'spki',
+    pemToBinary(key),
+    ALGORITHM_PARAMS[algorithm],
+    true,
+    isPrivate ? ['sign'] : ['verify']
+  )
+  return pickPublicMembers(await crypto.subtle.exportKey('jwk', cryptoKey))
+}
@@ -0,0 +1,256 @@
+/**
+ * JWT 密钥环模块，提供了带 kid 的多密钥管理和 JWKS 输出功能。
+ * 密钥环中只有一个当前密钥用于签名，旧密钥仍然可以验证此前签发的令牌，
+ * 因此轮换密钥时不需要让所有用户重新登录。
+ *
+ * @example
+ * ```ts
+ * import { Hono } from "hono";
+ * import { DefaultJWTService, JWTKeyRing, createJWKSHandler } from "@aiho/hono/jwt";
+ *
+ * const keyRing = new JWTKeyRing([
+ *   { kid: "2025-01", algorithm: "ES256", privateKey: Deno.env.get("JWT_KEY_2025_01") }
+ * ]);
+ * const jwtService = new DefaultJWTService({ keyRing });
+ *
+ * const app = new Hono();
+ * app.get("/.well-known/jwks.json", createJWKSHandler(keyRing));
+ * ```
+ *
+ * @module
+ */
+
+import type { Context } from 'hono'
+import { JWTError } from './errors.ts'
+import {
+  exportPublicJWK,
+  isSymmetricAlgorithm,
+  toVerificationKey
+} from './jws.ts'
+import type {
+  JWKSet,
+  JWKSHandlerOptions,
+  JWTAlgorithm,
+  JWTKey,
+  JWTKeyRingEntry,
+  JWTKeyRingOptions
+} from './types.ts'
+
+/**
+ * 获取密钥的签名密钥
+ * @param entry 密钥
+ * @returns 签名密钥，不能签名时返回 undefined
+ */
+const signingKeyOf = (entry: JWTKeyRingEntry): JWTKey | undefined =>
+  isSymmetricAlgorithm(entry.algorithm) ? entry.secret : entry.privateKey
+
+/**
+ * 获取密钥的验证密钥
+ * @param entry 密钥
+ * @returns 验证密钥，不能验证时返回 undefined
+ */
+const verificationKeyOf = (entry: JWTKeyRingEntry): JWTKey | undefined => {
+  if (isSymmetricAlgorithm(entry.algorithm)) {
+    return entry.secret
+  }
+  if (entry.publicKey) {
+    return entry.publicKey
+  }
+  return entry.privateKey && toVerificationKey(entry.privateKey)
+}
+
+/**
+ * JWT 密钥环
+ * 管理多个带 kid 的密钥，其中一个为当前签名密钥
+ *
+ * @example 轮换密钥
+ * ```ts
+ * import { JWTKeyRing } from "@aiho/hono/jwt";
+ *
+ * const keyRing = new JWTKeyRing([
+ *   { kid: "2025-01", algorithm: "RS256", privateKey: oldPrivateKey }
+ * ]);
+ *
+ * // 1. 添加新密钥并切换为当前签名密钥，旧令牌仍然可以通过 2025-01 验证
+ * keyRing.add({ kid: "2025-02", algorithm: "RS256", privateKey: newPrivateKey });
+ * keyRing.setActive("2025-02");
+ *
+ * // 2. 旧令牌全部过期后移除旧密钥
+ * keyRing.remove("2025-01");
+ * ```
+ */
+export class JWTKeyRing {
+  private keys = new Map<string, JWTKeyRingEntry>()
+  private activeKid: string | undefined
+  private jwks: Promise<JWKSet> | null = null
+
+  /**
+   * @param keys 初始密钥
+   * @param options 密钥环配置
+   * @throws {JWTError} 如果密钥不合法，或 activeKid 不存在或不能签名
+   */
+  constructor(keys: JWTKeyRingEntry[] = [], options: JWTKeyRingOptions = {}) {
+    for (const entry of keys) {
+      this.add(entry)
+    }
+    if (options.activeKid) {
+      this.setActive(options.activeKid)
+    }
+  }
+
+  /**
+   * 添加密钥
+   * 如果密钥环还没有当前签名密钥，且该密钥可以签名，则将其设为当前签名密钥
+   * @param entry 密钥
+   * @throws {JWTError} 如果 kid 已存在，或密钥既不能签名也不能验证
+   */
+  add(entry: JWTKeyRingEntry): void {
+    if (this.keys.has(entry.kid)) {
+      throw new JWTError(`Duplicate key id: ${entry.kid}`)
+    }
+    if (!verificationKeyOf(entry)) {
+      throw new JWTError(`Key ${entry.kid} has no key material`)
+    }
+    this.keys.set(entry.kid, { ...entry })
+    if (!this.activeKid && signingKeyOf(entry)) {
+      this.activeKid = entry.kid
+    }
+    this.jwks = null
+  }
+
+  /**
+   * 移除密钥，此后使用该密钥签发的令牌都无法通过验证
+   * @param kid 密钥 ID
+   * @returns 是否移除成功
+   * @throws {JWTError} 如果该密钥是当前签名密钥
+   */
+  remove(kid: string): boolean {
+    if (kid === this.activeKid) {
+      throw new JWTError(`Cannot remove the active signing key: ${kid}`)
+    }
+    this.jwks = null
+    return this.keys.delete(kid)
+  }
+
+  /**
+   * 设置当前签名密钥
+   * @param kid 密钥 ID
+   * @throws {JWTError} 如果密钥不存在或不能签名
+   */
+  setActive(kid: string): void {
+    const entry = this.keys.get(kid)
+    if (!entry || !signingKeyOf(entry)) {
+      throw new JWTError(`Key ${kid} cannot be used for signing`)
+    }
+    this.activeKid = kid
+  }
+
+  /**
+   * 获取当前签名密钥的 ID
+   * @returns 密钥 ID，没有可签名的密钥时返回 undefined
+   */
+  getActiveKid(): string | undefined {
+    return this.activeKid
+  }
+
+  /**
+   * 获取所有密钥的 ID
+   * @returns 密钥 ID 列表
+   */
+  kids(): string[] {
+    return [...this.keys.keys()]
+  }
+
+  /**
+   * 获取当前签名密钥
+   * @returns 密钥 ID、签名算法和签名密钥
+   * @throws {JWTError} 如果没有可签名的密钥
+   */
+  getSigner(): { kid: string; algorithm: JWTAlgorithm; key: JWTKey } {
+    const entry = this.activeKid && this.keys.get(this.activeKid)
+    if (!entry) {
+      throw new JWTError('No active signing key in key ring')
+    }
+    return {
+      kid: entry.kid,
+      algorithm: entry.algorithm,
+      key: signingKeyOf(entry)!
+    }
+  }
+
+  /**
+   * 获取验证令牌可用的密钥
+   * 令牌带有 kid 时只返回对应的密钥；不带 kid 时（如启用密钥环之前签发的令牌）返回所有密钥
+   * @param kid 令牌头部的 kid
+   * @returns 签名算法和验证密钥列表
+   */
+  getVerifiers(kid?: string): { algorithm: JWTAlgorithm; key: JWTKey }[] {
+    const entries =
+      kid === undefined
+        ? [...this.keys.values()]
+        : [this.keys.get(kid)].filter((entry) => entry !== undefined)
+    return entries.map((entry) => ({
+      algorithm: entry.algorithm,
+      key: verificationKeyOf(entry)!
+    }))
+  }
+
+  /**
+   * 生成 JWKS，只包含非对称密钥的公钥，HS 系列密钥不会公开
+   * 结果会被缓存，直到密钥环发生变化
+   * @returns JWK 集合
+   */
+  toJWKS(): Promise<JWKSet> {
+    if (!this.jwks) {
+      const entries = [...this.keys.values()].filter(
+        (entry) => !isSymmetricAlgorithm(entry.algorithm)
+      )
+      const jwks = Promise.all(
+        entries.map(async (entry) => ({
+          ...(await exportPublicJWK(
+            verificationKeyOf(entry)!,
+            entry.algorithm
+          )),
+          kid: entry.kid,
+          alg: entry.algorithm,
+          use: 'sig'
+        }))
+      ).then((keys) => ({ keys }))
+      // 导出失败时不缓存，下次请求重试
+      jwks.catch(() => {
+        if (this.jwks === jwks) {
+          this.jwks = null
+        }
+      })
+      this.jwks = jwks
+    }
+    return this.jwks
+  }
+}
+
+/**
+ * 创建输出 JWKS 的 Hono 处理器，通常挂载在 /.well-known/jwks.json
+ * @param keyRing 密钥环
+ * @param options 处理器配置
+ * @returns Hono 处理器
+ *
+ * @example
+ * ```ts
+ * import { Hono } from "hono";
+ * import { createJWKSHandler } from "@aiho/hono/jwt";
+ *
+ * const app = new Hono();
+ * app.get("/.well-known/jwks.json", createJWKSHandler(keyRing, { maxAge: 600 }));
+ * ```
+ */
+export const createJWKSHandler = (
+  keyRing: JWTKeyRing,
+  options: JWKSHandlerOptions = {}
+): ((c: Context) => Promise<Response>) => {
+  const maxAge = options.maxAge ?? 300
+  return async (c: Context) => {
+    return c.json(await keyRing.toJWKS(), 200, {
+      'Cache-Control': `public, max-age=${maxAge}`
+    })
+  }
+}
@@ -30,22 +30,256 @@
  */
 
 import type { Context, Next } from 'hono'
-import type { JWTPayload, Variables } from './types.ts'
+import { setCookie } from 'hono/cookie'
+import { createDPoPValidator } from './dpop.ts'
+import {
+  InvalidDPoPProofError,
+  InvalidSignatureError,
+  MalformedTokenError,
+  TokenExpiredError,
+  TokenRevokedError
+} from './errors.ts'
+import { extractToken, fromHeader, parseBearerToken } from './extractors.ts'
+import type {
+  JWTAuthErrorCode,
+  JWTAuthFailure,
+  JWTMiddlewareHandler,
+  JWTMiddlewareOptions,
+  JWTPayload,
+  JWTRenewalOptions,
+  Variables
+} from './types.ts'
+
+/** 默认错误消息 */
+const DEFAULT_MESSAGES: Record<JWTAuthErrorCode, string> = {
+  missing: '未提供认证令牌',
+  malformed: '无效的认证令牌',
+  expired: '无效的认证令牌',
+  bad_signature: '无效的认证令牌',
+  revoked: '无效的认证令牌',
+  dpop_proof: '无效的认证令牌',
+  invalid: '无效的认证令牌',
+  insufficient_scope: '权限不足'
+}
+
+/**
+ * 根据验证函数抛出的错误判断失败原因
+ * @param error 验证函数抛出的错误
+ * @returns 失败原因
+ */
+const toErrorCode = (error: unknown): JWTAuthErrorCode => {
+  if (error instanceof MalformedTokenError) {
+    return 'malformed'
+  }
+  if (error instanceof TokenExpiredError) {
+    return 'expired'
+  }
+  if (error instanceof InvalidSignatureError) {
+    return 'bad_signature'
+  }
+  if (error instanceof TokenRevokedError) {
+    return 'revoked'
+  }
+  if (error instanceof InvalidDPoPProofError) {
+    return 'dpop_proof'
+  }
+  return 'invalid'
+}
+
+/** WWW-Authenticate 响应头中各失败原因的错误描述 */
+const ERROR_DESCRIPTIONS: Record<JWTAuthErrorCode, string> = {
+  missing: '',
+  malformed: 'The token is malformed',
+  expired: 'The token has expired',
+  bad_signature: 'The token signature is invalid',
+  revoked: 'The token has been revoked',
+  dpop_proof: 'The DPoP proof is missing or invalid',
+  invalid: 'The token is invalid',
+  insufficient_scope: 'The token does not grant the required permissions'
+}
+
+/**
+ * 转义 WWW-Authenticate 响应头中的引号字符串
+ * @param value 参数值
+ * @returns 转义后的值
+ */
+const quote = (value: string): string => `"${value.replace(/["\\]/g, '\\$&')}"`
+
+/**
+ * 生成 RFC 6750 的 WWW-Authenticate 响应头
+ * 令牌缺失时不包含错误码，DPoP 证明无效时为 RFC 9449 的 DPoP 质询，权限不足时为 insufficient_scope，
+ * 其他情况为 invalid_token，并附带错误描述
+ * @param code 失败原因
+ * @param realm realm 参数
+ * @param scope 权限不足时要求的权限范围
+ * @returns 响应头的值
+ */
+const toAuthenticateHeader = (
+  code: JWTAuthErrorCode,
+  realm: string | undefined,
+  scope: string | undefined
+): string => {
+  const params: string[] = []
+  if (realm !== undefined) {
+    params.push(`realm=${quote(realm)}`)
+  }
+  if (code !== 'missing') {
+    params.push(
+      code === 'dpop_proof'
+        ? 'error="invalid_dpop_proof"'
+        : code === 'insufficient_scope'
+          ? 'error="insufficient_scope"'
+          : 'error="invalid_token"'
+    )
+    params.push(`error_description="${ERROR_DESCRIPTIONS[code]}"`)
+  }
+  if (code === 'insufficient_scope' && scope) {
+    params.push(`scope=${quote(scope)}`)
+  }
+  const scheme = code === 'dpop_proof' ? 'DPoP' : 'Bearer'
+  return params.length ? `${scheme} ${params.join(', ')}` : scheme
+}
+
+/**
+ * 创建认证失败的响应函数，认证中间件和授权中间件共用
+ * 设置 WWW-Authenticate 响应头后调用 onError；未配置 onError 时返回 `{ error, code }`，
+ * 权限不足时状态码为 403，其他原因为 401
+ * @param options 错误消息、realm 和自定义错误响应
+ * @returns 响应函数，scope 为权限不足时写入响应头的权限范围
+ */
+export const createAuthFailureHandler = (
+  options: Pick<JWTMiddlewareOptions, 'messages' | 'realm' | 'onError'>
+): ((
+  c: Context,
+  code: JWTAuthErrorCode,
+  error?: unknown,
+  scope?: string
+) => Promise<Response>) => {
+  const messages = { ...DEFAULT_MESSAGES, ...options.messages }
+  return async (c, code, error, scope) => {
+    const failure: JWTAuthFailure = { code, message: messages[code], error }
+    c.header(
+      'WWW-Authenticate',
+      toAuthenticateHeader(code, options.realm, scope)
+    )
+    if (options.onError) {
+      return await options.onError(c, failure)
+    }
+    return c.json(
+      { error: failure.message, code },
+      code === 'insufficient_scope' ? 403 : 401
+    )
+  }
+}
+
+/**
+ * 获取令牌在 Authorization 请求头中使用的认证方案
+ * @param c Hono 上下文
+ * @param token 提取到的令牌
+ * @returns 通过 Authorization: DPoP 发送时返回 DPoP，否则返回 null
+ */
+const getTokenScheme = (c: Context, token: string): string | null => {
+  const authorization = c.req.header('Authorization')
+  return authorization && parseBearerToken(authorization, 'DPoP') === token
+    ? 'DPoP'
+    : null
+}
+
+/** 续期时由 JWT 服务重新生成的声明 */
+const RENEWED_CLAIMS = ['exp', 'iat', 'nbf', 'jti']
+
+/**
+ * 令牌临近过期时重新签发，并通过响应头或 cookie 返回新令牌
+ * 新令牌保持当前令牌的有效期（exp - iat），并通过 auth_time 保留首次认证的时间；
+ * 如果处理函数返回了错误响应、写入了同名 cookie（如退出登录时删除 cookie）或吊销了令牌，则不再续期
+ * @param c Hono 上下文
+ * @param token 当前令牌
+ * @param payload 当前令牌的负载数据
+ * @param verifyFn 验证函数，重新签发前再次验证当前令牌
+ * @param options 续期配置
+ */
+const renewToken = async <T extends JWTPayload>(
+  c: Context,
+  token: string,
+  payload: T,
+  verifyFn: (token: string) => Promise<T>,
+  options: JWTRenewalOptions<T>
+): Promise<void> => {
+  if (!c.res.ok || typeof payload.exp !== 'number') {
+    return
+  }
+  const now = Math.floor(Date.now() / 1000)
+  // issueTokenPair 签发的短期访问令牌续期后仍然是短期令牌
+  const validityPeriod =
+    typeof payload.iat === 'number' && payload.exp > payload.iat
+      ? payload.exp - payload.iat
+      : options.service.getValidityPeriod()
+  const window = options.window ?? validityPeriod / 2
+  if (payload.exp - now > window) {
+    return
+  }
+  const authTime =
+    typeof payload.auth_time === 'number'
+      ? payload.auth_time
+      : typeof payload.iat === 'number'
+        ? payload.iat
+        : now
+  if (options.maxAge !== undefined && now - authTime >= options.maxAge) {
+    return
+  }
+  const cookie = options.cookie
+  if (
+    cookie &&
+    c.res.headers.getSetCookie().some((value) => value.startsWith(`${cookie}=`))
+  ) {
+    return
+  }
+  // 处理函数可能已经吊销了当前令牌（如退出登录），此时不能签发新令牌
+  try {
+    await verifyFn(token)
+  } catch (_) {
+    return
+  }
+
+  const claims: JWTPayload = { ...payload, auth_time: authTime }
+  for (const claim of RENEWED_CLAIMS) {
+    delete claims[claim]
+  }
+  const renewed = await options.service.sign(claims as T, { validityPeriod })
+
+  const header = options.header || (cookie ? undefined : 'X-Renewed-Token')
+  if (header) {
+    c.header(header, renewed)
+  }
+  if (cookie) {
+    setCookie(c, cookie, renewed, {
+      httpOnly: true,
+      secure: true,
+      sameSite: 'Lax',
+      path: '/',
+      maxAge: validityPeriod,
+      ...options.cookieOptions
+    })
+  }
+}
 
 /**
  * 创建 JWT 验证中间件
  * 该函数创建一个 Hono 中间件，用于验证请求中的 JWT 令牌
- * 中间件会从 Authorization 头部提取 Bearer 令牌，验证其有效性，
- * 并将令牌负载数据存储在上下文中
+ * 中间件默认从 Authorization 头部提取 Bearer 令牌，也可以配置从 cookie、查询参数等来源提取，
+ * 验证其有效性，并将令牌负载数据存储在上下文中
  *
+ * @template T JWT 负载数据类型，通常由 verifyFn 的返回值推断
  * @param verifyFn JWT 验证函数，用于验证令牌并返回负载数据。通常是 JWTService.verify 方法的绑定版本。
  * 该函数应接收一个字符串类型的令牌，并返回一个包含解码后负载数据的 Promise。
  * 如果令牌无效或已过期，该函数应抛出异常。
+ * @param options 中间件配置，包括令牌提取器、是否为可选认证、错误消息、自定义错误响应、滑动续期和 DPoP
  *
  * @returns Hono 中间件函数，用于验证请求中的 JWT 令牌。
- * 该中间件会检查请求头中的 Authorization 字段，提取 Bearer 令牌，
+ * 该中间件会按顺序执行令牌提取器（默认检查请求头中的 Authorization 字段，提取 Bearer 令牌），
  * 验证令牌有效性，并将解码后的负载数据存储在上下文的 'jwtPayload' 变量中。
- * 如果令牌缺失或无效，中间件会返回 401 错误响应。
+ * 如果令牌缺失或无效，中间件会返回 401 错误响应和 RFC 6750 的 WWW-Authenticate 响应头，
+ * 响应体为 `{ error, code }`，其中 code 为 missing、malformed、expired、bad_signature、revoked、dpop_proof 或 invalid；可选认证模式下则继续处理请求，不设置 'jwtPayload'，此时 'jwtPayload' 的类型包含 undefined。
  *
  * @example 基本用法
  * ```ts
@@ -70,6 +304,96 @@ import type { JWTPayload, Variables } from './types.ts'
  * });
  * ```
  *
+ * @example 类型化负载
+ * ```ts
+ * import { Hono } from "hono";
+ * import { DefaultJWTService, createJWTMiddleware } from "@aiho/hono/jwt";
+ *
+ * type Claims = { sub: string; role: "admin" | "user" };
+ *
+ * const jwtService = new DefaultJWTService<Claims>({ secret: "your-secret-key" });
+ * const jwtMiddleware = createJWTMiddleware(jwtService.verify.bind(jwtService));
+ *
+ * const app = new Hono();
+ * app.get("/admin", jwtMiddleware, (c) => {
+ *   const { role } = c.get("jwtPayload"); // role: "admin" | "user"
+ *   return c.json({ role });
+ * });
+ * ```
+ *
+ * @example 多个令牌来源
+ * ```ts
+ * import { Hono } from "hono";
+ * import { createJWTMiddleware, fromCookie, fromHeader, fromQuery } from "@aiho/hono/jwt";
+ *
+ * const app = new Hono();
+ *
+ * // API 客户端使用 Authorization 头，SSR 页面使用 HttpOnly cookie，WebSocket 握手使用查询参数
+ * const jwtMiddleware = createJWTMiddleware(jwtService.verify.bind(jwtService), {
+ *   extractors: [
+ *     fromHeader(),
+ *     fromCookie("session"),
+ *     fromQuery("access_token"),
+ *     (c) => c.req.header("X-Api-Token") // 自定义提取函数
+ *   ]
+ * });
+ * ```
+ *
+ * @example 可选认证
+ * ```ts
+ * import { Hono } from "hono";
+ * import { createJWTMiddleware } from "@aiho/hono/jwt";
+ *
+ * const app = new Hono();
+ * const optionalAuth = createJWTMiddleware(jwtService.verify.bind(jwtService), {
+ *   optional: true
+ * });
+ *
+ * // 公开页面，登录用户看到个性化内容
+ * app.get("/", optionalAuth, (c) => {
+ *   const payload = c.get("jwtPayload"); // 未登录或令牌无效时为 undefined
+ *   return c.json({ greeting: payload ? `你好，${payload.sub}` : "你好，访客" });
+ * });
+ * ```
+ *
+ * @example 滑动续期
+ * ```ts
+ * import { Hono } from "hono";
+ * import { DefaultJWTService, createJWTMiddleware, fromCookie } from "@aiho/hono/jwt";
+ *
+ * const jwtService = new DefaultJWTService({
+ *   secret: "your-secret-key",
+ *   validityPeriod: 60 * 60 * 24 * 7 // 7 天
+ * });
+ *
+ * // 令牌剩余有效期不足 1 天时重新签发并写回 session cookie，活跃用户不会在 7 天后被强制退出，
+ * // 但从登录起超过 30 天后不再续期，需要重新登录
+ * const jwtMiddleware = createJWTMiddleware(jwtService.verify.bind(jwtService), {
+ *   extractors: [fromCookie("session")],
+ *   renew: { service: jwtService, window: 60 * 60 * 24, cookie: "session", maxAge: 60 * 60 * 24 * 30 }
+ * });
+ *
+ * // 使用 Authorization 头的客户端从 X-Renewed-Token 响应头读取新令牌
+ * // 跨域时需要在 CORS 配置的 exposeHeaders 中加入该头部
+ * const apiMiddleware = createJWTMiddleware(jwtService.verify.bind(jwtService), {
+ *   renew: { service: jwtService }
+ * });
+ * ```
+ *
+ * @example DPoP 持有证明
+ * ```ts
+ * import { createJWTMiddleware, KVDPoPReplayCache } from "@aiho/hono/jwt";
+ *
+ * // 绑定了 DPoP 密钥的令牌必须携带有效的 DPoP 证明，required 为 true 时拒绝未绑定的令牌
+ * const jwtMiddleware = createJWTMiddleware(jwtService.verify.bind(jwtService), {
+ *   dpop: {
+ *     required: true,
+ *     replayCache: new KVDPoPReplayCache(await Deno.openKv()),
+ *     getUrl: (c) => `https://api.example.com${c.req.path}`
+ *   }
+ * });
+ * ```
+ *
  * @example 错误处理
  * ```ts
  * import { Hono } from "hono";
@@ -78,17 +402,17 @@ import type { JWTPayload, Variables } from './types.ts'
  *
  * const app = new Hono();
  * const jwtService = new DefaultJWTService({ secret: "your-secret-key" });
- * const jwtMiddleware = createJWTMiddleware(jwtService.verify.bind(jwtService));
  *
- * // 自定义错误处理
- * app.use("/api/*", async (c, next) => {
- *   try {
- *     await next();
- *   } catch (error) {
- *     if (error.message === "无效的认证令牌") {
- *       return c.json({ error: "认证失败，请重新登录", code: "AUTH_FAILED" }, 401);
- *     }
- *     throw error; // 重新抛出其他错误
+ * // 自定义错误消息和响应
+ * const jwtMiddleware = createJWTMiddleware(jwtService.verify.bind(jwtService), {
+ *   realm: "api",
+ *   messages: {
+ *     missing: "Authentication required",
+ *     expired: "Session expired, please sign in again"
+ *   },
+ *   onError: (c, reason) => {
+ *     // reason.code: missing | malformed | expired | bad_signature | revoked | dpop_proof | invalid
+ *     return c.json({ error: reason.message, code: `AUTH_${reason.code.toUpperCase()}` }, 401);
  *   }
  * });
  *
@@ -104,7 +428,7 @@ import type { JWTPayload, Variables } from './types.ts'
  * ```ts
  * import { Hono } from "hono";
  * import { DefaultJWTService } from "@aiho/hono/jwt";
- * import { createJWTMiddleware } from "@aiho/hono/jwt/middleware";
+ * import { createJWTMiddleware, requireRoles } from "@aiho/hono/jwt";
  * import { logger } from "hono/logger";
  *
  * const app = new Hono();
@@ -113,42 +437,63 @@ import type { JWTPayload, Variables } from './types.ts'
  * const jwtService = new DefaultJWTService({ secret: "your-secret-key" });
  * const jwtMiddleware = createJWTMiddleware(jwtService.verify.bind(jwtService));
  *
- * // 创建角色验证中间件
- * const roleMiddleware = (requiredRole: string) => {
- *   return async (c, next) => {
- *     const payload = c.get("jwtPayload");
- *     if (payload.role !== requiredRole) {
- *       return c.json({ error: "权限不足" }, 403);
- *     }
- *     await next();
- *   };
- * };
- *
- * // 组合中间件使用
- * app.get("/admin", jwtMiddleware, roleMiddleware("admin"), (c) => {
+ * // 组合中间件使用，角色不符时返回 403
+ * app.get("/admin", jwtMiddleware, requireRoles("admin"), (c) => {
  *   return c.json({ message: "管理员页面" });
  * });
  * ```
  */
-export const createJWTMiddleware = (
-  verifyFn: (token: string) => Promise<JWTPayload>
-): ((
-  c: Context<{ Variables: Variables }>,
-  next: Next
-) => Promise<Response | void>) => {
-  return async (c: Context<{ Variables: Variables }>, next: Next) => {
-    const token = c.req.header('Authorization')?.replace('Bearer ', '')
+export function createJWTMiddleware<T extends JWTPayload = JWTPayload>(
+  verifyFn: (token: string) => Promise<T>,
+  options: JWTMiddlewareOptions<T> & { optional: true }
+): JWTMiddlewareHandler<T | undefined>
+export function createJWTMiddleware<T extends JWTPayload = JWTPayload>(
+  verifyFn: (token: string) => Promise<T>,
+  options?: JWTMiddlewareOptions<T>
+): JWTMiddlewareHandler<T>
+export function createJWTMiddleware<T extends JWTPayload = JWTPayload>(
+  verifyFn: (token: string) => Promise<T>,
+  options: JWTMiddlewareOptions<T> = {}
+): JWTMiddlewareHandler<T | undefined> {
+  const dpop = options.dpop
+    ? createDPoPValidator(options.dpop === true ? {} : options.dpop)
+    : null
+  const extractors =
+    options.extractors ||
+    (dpop ? [fromHeader({ scheme: 'DPoP' }), fromHeader()] : [fromHeader()])
+  const optional = options.optional ?? false
+  const fail = createAuthFailureHandler(options)
+
+  return async (
+    c: Context<{ Variables: Variables<T | undefined> }>,
+    next: Next
+  ) => {
+    const token = await extractToken(extractors, c)
 
     if (!token) {
-      return c.json({ error: '未提供认证令牌' }, 401)
+      if (optional) {
+        return await next()
+      }
+      return await fail(c, 'missing')
     }
 
+    let payload: T
     try {
-      const payload = await verifyFn(token)
-      c.set('jwtPayload', payload)
-      await next()
-    } catch (_) {
-      return c.json({ error: '无效的认证令牌' }, 401)
+      payload = await verifyFn(token)
+      if (dpop) {
+        await dpop(c, token, payload, getTokenScheme(c, token))
+      }
+    } catch (error) {
+      if (optional) {
+        return await next()
+      }
+      return await fail(c, toErrorCode(error), error)
+    }
+    c.set('jwtPayload', payload)
+    await next()
+
+    if (options.renew) {
+      await renewToken(c, token, payload, verifyFn, options.renew)
     }
   }
 }
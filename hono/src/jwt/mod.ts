@@ -30,4 +30,83 @@
 
 export { DefaultJWTService } from './services.ts'
 export { createJWTMiddleware } from './middleware.ts'
-export type { JWTPayload, Variables, JWTConfig, JWTService } from './types.ts'
+export { JWEService } from './jwe.ts'
+export { createJWTSession } from './session.ts'
+export { computeJWKThumbprint } from './dpop.ts'
+export {
+  fromHeader,
+  fromCookie,
+  fromQuery,
+  parseBearerToken
+} from './extractors.ts'
+export { requireRoles, requireScopes } from './authorization.ts'
+export { JWTKeyRing, createJWKSHandler } from './keyring.ts'
+export { RemoteJWKSVerifier } from './remote.ts'
+export {
+  MemoryRefreshTokenStore,
+  KVRefreshTokenStore,
+  MemoryTokenRevocationStore,
+  KVTokenRevocationStore,
+  MemoryDPoPReplayCache,
+  KVDPoPReplayCache
+} from './stores.ts'
+export {
+  JWTError,
+  InvalidRefreshTokenError,
+  RefreshTokenReuseError,
+  InvalidTokenTypeError,
+  MalformedTokenError,
+  InvalidSignatureError,
+  TokenExpiredError,
+  TokenNotYetValidError,
+  InvalidIssuedAtError,
+  TokenTooOldError,
+  MissingSubjectError,
+  InvalidPayloadError,
+  TokenRevokedError,
+  InvalidIssuerError,
+  InvalidAudienceError,
+  InvalidDPoPProofError
+} from './errors.ts'
+export type {
+  KVRefreshTokenStoreOptions,
+  KVTokenRevocationStoreOptions,
+  KVDPoPReplayCacheOptions
+} from './stores.ts'
+export type {
+  JWTPayload,
+  JWTPayloadValidator,
+  Variables,
+  JWTMiddlewareHandler,
+  JWTConfig,
+  JWTSignOptions,
+  JWEAlgorithm,
+  JWEConfig,
+  JWTAlgorithm,
+  JWTKey,
+  JWK,
+  JWKSet,
+  JWTKeyRingEntry,
+  JWTKeyRingOptions,
+  JWKSHandlerOptions,
+  RemoteJWKSVerifierOptions,
+  TokenExtractor,
+  HeaderExtractorOptions,
+  JWTMiddlewareOptions,
+  JWTAuthErrorCode,
+  JWTAuthFailure,
+  JWTRenewalOptions,
+  JWTAuthorizationOptions,
+  JWTSession,
+  JWTSessionOptions,
+  JWTSessionCSRFOptions,
+  DPoPOptions,
+  DPoPReplayCache,
+  JWTService,
+  RefreshableJWTService,
+  RevocableJWTService,
+  TokenRevocationStore,
+  TokenPair,
+  RefreshTokenFamily,
+  RefreshTokenStore
+} from './types.ts'
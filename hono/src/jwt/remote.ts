@@ -0,0 +1,241 @@
+/**
+ * 远程 JWKS 模块，提供了验证外部身份提供商（Auth0、Keycloak、Google 等）签发的令牌的功能。
+ * 验证器从 JWKS 地址获取公钥并缓存，按令牌头部的 kid 选择公钥，
+ * 并校验签发者（iss）和受众（aud）。
+ *
+ * @example
+ * ```ts
+ * import { Hono } from "hono";
+ * import { createJWTMiddleware, RemoteJWKSVerifier } from "@aiho/hono/jwt";
+ *
+ * const verifier = new RemoteJWKSVerifier({
+ *   jwksUri: "https://example.auth0.com/.well-known/jwks.json",
+ *   issuer: "https://example.auth0.com/",
+ *   audience: "https://api.example.com"
+ * });
+ *
+ * const app = new Hono();
+ * app.get("/api/me", createJWTMiddleware(verifier.verify.bind(verifier)), (c) => {
+ *   return c.json(c.get("jwtPayload"));
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import { validateClaims } from './claims.ts'
+import { InvalidSignatureError, JWTError } from './errors.ts'
+import {
+  ASYMMETRIC_ALGORITHMS,
+  decodeJWT,
+  isSymmetricAlgorithm,
+  verifyJWTSignature
+} from './jws.ts'
+import type {
+  JWK,
+  JWTAlgorithm,
+  JWTPayload,
+  RemoteJWKSVerifierOptions
+} from './types.ts'
+
+/**
+ * 获取签名算法对应的 JWK 密钥类型
+ * @param algorithm 签名算法
+ * @returns 密钥类型（kty）
+ */
+const keyTypeOf = (algorithm: JWTAlgorithm): string => {
+  if (algorithm === 'EdDSA') {
+    return 'OKP'
+  }
+  return algorithm.startsWith('ES') ? 'EC' : 'RSA'
+}
+
+/**
+ * 远程 JWKS 验证器
+ * 公钥在 cacheTtl 内被缓存；令牌的 kid 不在缓存中时（如提供商轮换了密钥）会重新请求 JWKS，
+ * 两次请求之间至少间隔 cooldown 秒，防止携带随机 kid 的请求打满提供商的接口。
+ * 请求失败时继续使用已缓存的公钥
+ *
+ * @example 使用自定义 fetch
+ * ```ts
+ * import { RemoteJWKSVerifier } from "@aiho/hono/jwt";
+ *
+ * const verifier = new RemoteJWKSVerifier({
+ *   jwksUri: "https://keycloak.example.com/realms/main/protocol/openid-connect/certs",
+ *   issuer: "https://keycloak.example.com/realms/main",
+ *   algorithms: ["RS256"],
+ *   fetch: (input, init) => fetch(input, { ...init, signal: AbortSignal.timeout(5000) })
+ * });
+ *
+ * const payload = await verifier.verify(token);
+ * ```
+ */
+export class RemoteJWKSVerifier {
+  private jwksUri: string
+  private issuer: string | string[] | undefined
+  private audience: string | string[] | undefined
+  private algorithms: JWTAlgorithm[]
+  private types: string[]
+  private cacheTtl: number
+  private cooldown: number
+  private leeway: number
+  private fetch: typeof fetch
+  private keys: JWK[] | null = null
+  private fetchedAt = 0
+  private lastRequestAt = 0
+  private pending: Promise<JWK[]> | null = null
+
+  constructor(options: RemoteJWKSVerifierOptions) {
+    this.jwksUri = options.jwksUri
+    this.issuer = options.issuer
+    this.audience = options.audience
+    this.algorithms = (options.algorithms || ASYMMETRIC_ALGORITHMS).filter(
+      (algorithm) => !isSymmetricAlgorithm(algorithm)
+    )
+    this.types = options.types || ['JWT', 'at+jwt']
+    // 默认10分钟
+    this.cacheTtl = options.cacheTtl ?? 10 * 60
+    // 默认30秒
+    this.cooldown = options.cooldown ?? 30
+    this.leeway = options.leeway ?? 0
+    this.fetch = options.fetch || fetch
+  }
+
+  /**
+   * 验证令牌的签名、有效期、签发者和受众
+   * @param token JWT 令牌字符串
+   * @returns JWT 负载数据
+   * @throws {MalformedTokenError} 如果令牌格式不正确或头部 typ 不被允许
+   * @throws {InvalidSignatureError} 如果算法不被允许、找不到对应的公钥或签名无效
+   * @throws {JWTError} 如果 JWKS 无法获取
+   * @throws {TokenExpiredError} 如果令牌已过期，其他声明校验失败时抛出对应的错误
+   */
+  async verify(token: string): Promise<JWTPayload> {
+    const jwt = decodeJWT(token, this.types)
+    const algorithm = jwt.header.alg as JWTAlgorithm
+    if (!this.algorithms.includes(algorithm)) {
+      throw new InvalidSignatureError('Token algorithm is not allowed')
+    }
+    const kid = typeof jwt.header.kid === 'string' ? jwt.header.kid : undefined
+
+    let candidates = this.findKeys(await this.getKeys(), algorithm, kid)
+    if (!candidates.length && kid !== undefined) {
+      // kid 未命中，提供商可能已轮换密钥
+      candidates = this.findKeys(await this.getKeys(true), algorithm, kid)
+    }
+    if (!candidates.length) {
+      throw new InvalidSignatureError('No matching key found in JWKS')
+    }
+
+    await verifyJWTSignature(
+      jwt,
+      candidates.map((key) => ({ algorithm, key }))
+    )
+    validateClaims(jwt.payload, {
+      issuer: this.issuer,
+      audience: this.audience,
+      leeway: this.leeway
+    })
+    return jwt.payload
+  }
+
+  /**
+   * 清空缓存的公钥，下次验证时重新请求 JWKS
+   */
+  clearCache(): void {
+    this.keys = null
+    this.fetchedAt = 0
+    this.lastRequestAt = 0
+  }
+
+  /**
+   * 查找可用于验证令牌的公钥
+   * @param keys JWKS 中的公钥
+   * @param algorithm 令牌的签名算法
+   * @param kid 令牌的 kid
+   * @returns 候选公钥
+   * @private
+   */
+  private findKeys(
+    keys: JWK[],
+    algorithm: JWTAlgorithm,
+    kid: string | undefined
+  ): JWK[] {
+    return keys.filter(
+      (key) =>
+        (kid === undefined || key.kid === kid) &&
+        (key.alg === undefined || key.alg === algorithm) &&
+        (key.use === undefined || key.use === 'sig') &&
+        key.kty === keyTypeOf(algorithm)
+    )
+  }
+
+  /**
+   * 获取公钥，缓存过期或强制刷新时请求 JWKS
+   * 距离上次请求不足 cooldown 秒时不会重新请求，同一时间最多只有一个请求
+   * @param refresh 是否强制刷新
+   * @returns 公钥列表，请求失败时返回已缓存的公钥
+   * @throws {JWTError} 如果请求失败且没有缓存的公钥
+   * @private
+   */
+  private async getKeys(refresh: boolean = false): Promise<JWK[]> {
+    if (!this.pending) {
+      const now = Date.now()
+      const fresh = this.keys && now - this.fetchedAt < this.cacheTtl * 1000
+      if (fresh && !refresh) {
+        return this.keys!
+      }
+      if (now - this.lastRequestAt < this.cooldown * 1000) {
+        if (this.keys) {
+          return this.keys
+        }
+        throw new JWTError(`JWKS from ${this.jwksUri} is unavailable`)
+      }
+      this.lastRequestAt = now
+      this.pending = this.fetchKeys().finally(() => {
+        this.pending = null
+      })
+    }
+    try {
+      return await this.pending
+    } catch (error) {
+      if (this.keys) {
+        return this.keys
+      }
+      throw error
+    }
+  }
+
+  /**
+   * 请求 JWKS 并更新缓存
+   * @returns 公钥列表
+   * @throws {JWTError} 如果请求失败或响应格式不正确
+   * @private
+   */
+  private async fetchKeys(): Promise<JWK[]> {
+    let response: Response
+    try {
+      response = await this.fetch(this.jwksUri, {
+        headers: { Accept: 'application/json' }
+      })
+    } catch (error) {
+      throw new JWTError(
+        `Failed to fetch JWKS from ${this.jwksUri}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      )
+    }
+    if (!response.ok) {
+      throw new JWTError(
+        `Failed to fetch JWKS from ${this.jwksUri}: ${response.status}`
+      )
+    }
+    const body = await response.json().catch(() => null)
+    if (!body || !Array.isArray(body.keys)) {
+      throw new JWTError(`Invalid JWKS response from ${this.jwksUri}`)
+    }
+    this.keys = body.keys as JWK[]
+    this.fetchedAt = Date.now()
+    return this.keys
+  }
+}
@@ -0,0 +1,231 @@
+import { assertEquals, assertRejects } from '@std/assert'
+import { toBase64Url } from '../utils.ts'
+import { InvalidSignatureError, MalformedTokenError } from './errors.ts'
+import { exportPublicJWK } from './jws.ts'
+import { RemoteJWKSVerifier } from './remote.ts'
+import type { JWK, JWTPayload, RemoteJWKSVerifierOptions } from './types.ts'
+
+const encoder = new TextEncoder()
+
+/** 测试用的签名密钥 */
+type TestKey = { kid: string; privateKey: CryptoKey; jwk: JWK }
+
+/**
+ * 生成 ES256 密钥对
+ * @param kid 密钥 ID
+ * @returns 私钥和对应的公开 JWK
+ */
+const createKey = async (kid: string): Promise<TestKey> => {
+  const { privateKey, publicKey } = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['sign', 'verify']
+  )
+  const jwk = { ...(await exportPublicJWK(publicKey, 'ES256')), kid }
+  return { kid, privateKey, jwk }
+}
+
+/**
+ * 签发令牌，可以指定头部 typ
+ * @param key 签名密钥
+ * @param payload 负载数据，exp 默认为 1 分钟后
+ * @param typ 头部 typ，为 null 时不写入
+ * @returns JWT 令牌
+ */
+const sign = async (
+  key: TestKey,
+  payload: JWTPayload = {},
+  typ: string | null = 'JWT'
+): Promise<string> => {
+  const header =
+    typ === null
+      ? { alg: 'ES256', kid: key.kid }
+      : { alg: 'ES256', typ, kid: key.kid }
+  const body = { exp: Math.floor(Date.now() / 1000) + 60, ...payload }
+  const signingInput = `${toBase64Url(
+    encoder.encode(JSON.stringify(header))
+  )}.${toBase64Url(encoder.encode(JSON.stringify(body)))}`
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key.privateKey,
+    encoder.encode(signingInput)
+  )
+  return `${signingInput}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+/**
+ * 启动本地 JWKS 服务，记录请求次数，并在测试结束后关闭
+ * @param keys 初始公钥
+ * @param fn 测试函数
+ */
+const withJWKSServer = async (
+  keys: JWK[],
+  fn: (server: {
+    jwksUri: string
+    requests: () => number
+    setKeys: (keys: JWK[]) => void
+  }) => Promise<void>
+): Promise<void> => {
+  let current = keys
+  let requests = 0
+  const server = Deno.serve(
+    { hostname: '127.0.0.1', port: 0, onListen: () => {} },
+    () => {
+      requests++
+      return Response.json({ keys: current })
+    }
+  )
+  try {
+    await fn({
+      jwksUri: `http://127.0.0.1:${server.addr.port}/jwks.json`,
+      requests: () => requests,
+      setKeys: (keys) => {
+        current = keys
+      }
+    })
+  } finally {
+    await server.shutdown()
+  }
+}
+
+/**
+ * 创建指向本地 JWKS 服务的验证器
+ * @param jwksUri JWKS 地址
+ * @param options 其他配置
+ * @returns 验证器
+ */
+const createVerifier = (
+  jwksUri: string,
+  options: Partial<RemoteJWKSVerifierOptions> = {}
+): RemoteJWKSVerifier =>
+  new RemoteJWKSVerifier({ jwksUri, algorithms: ['ES256'], ...options })
+
+Deno.test(
+  'RemoteJWKSVerifier caches the JWKS between verifications',
+  async () => {
+    const key = await createKey('k1')
+    await withJWKSServer([key.jwk], async ({ jwksUri, requests }) => {
+      const verifier = createVerifier(jwksUri)
+
+      assertEquals(
+        (await verifier.verify(await sign(key, { sub: 'a' }))).sub,
+        'a'
+      )
+      assertEquals(
+        (await verifier.verify(await sign(key, { sub: 'b' }))).sub,
+        'b'
+      )
+      assertEquals(requests(), 1)
+
+      verifier.clearCache()
+      await verifier.verify(await sign(key))
+      assertEquals(requests(), 2)
+    })
+  }
+)
+
+Deno.test(
+  'RemoteJWKSVerifier shares one request between concurrent verifications',
+  async () => {
+    const key = await createKey('k1')
+    await withJWKSServer([key.jwk], async ({ jwksUri, requests }) => {
+      const verifier = createVerifier(jwksUri)
+      const tokens = await Promise.all([sign(key), sign(key), sign(key)])
+
+      await Promise.all(tokens.map((token) => verifier.verify(token)))
+      assertEquals(requests(), 1)
+    })
+  }
+)
+
+Deno.test(
+  'RemoteJWKSVerifier refetches the JWKS when the kid is unknown',
+  async () => {
+    const oldKey = await createKey('k1')
+    const newKey = await createKey('k2')
+    await withJWKSServer(
+      [oldKey.jwk],
+      async ({ jwksUri, requests, setKeys }) => {
+        const verifier = createVerifier(jwksUri, { cooldown: 0 })
+        await verifier.verify(await sign(oldKey))
+
+        // 提供商轮换密钥后，新 kid 在缓存中未命中，应立即重新请求
+        setKeys([oldKey.jwk, newKey.jwk])
+        assertEquals(
+          (await verifier.verify(await sign(newKey, { sub: 'new' }))).sub,
+          'new'
+        )
+        assertEquals(requests(), 2)
+
+        // 新公钥已缓存，不再请求
+        await verifier.verify(await sign(newKey))
+        assertEquals(requests(), 2)
+      }
+    )
+  }
+)
+
+Deno.test(
+  'RemoteJWKSVerifier does not refetch within the cooldown',
+  async () => {
+    const key = await createKey('k1')
+    const unknownKey = await createKey('unknown')
+    await withJWKSServer([key.jwk], async ({ jwksUri, requests }) => {
+      const verifier = createVerifier(jwksUri, { cooldown: 60 })
+      await verifier.verify(await sign(key))
+
+      const token = await sign(unknownKey)
+      await assertRejects(() => verifier.verify(token), InvalidSignatureError)
+      await assertRejects(() => verifier.verify(token), InvalidSignatureError)
+      assertEquals(requests(), 1)
+    })
+  }
+)
+
+Deno.test('RemoteJWKSVerifier accepts RFC 9068 access tokens', async () => {
+  const key = await createKey('k1')
+  await withJWKSServer([key.jwk], async ({ jwksUri }) => {
+    const verifier = createVerifier(jwksUri)
+
+    assertEquals(
+      (await verifier.verify(await sign(key, { sub: 'a' }, 'at+jwt'))).sub,
+      'a'
+    )
+    assertEquals(
+      (
+        await verifier.verify(
+          await sign(key, { sub: 'b' }, 'application/AT+JWT')
+        )
+      ).sub,
+      'b'
+    )
+    assertEquals(
+      (await verifier.verify(await sign(key, { sub: 'c' }, null))).sub,
+      'c'
+    )
+    await assertRejects(
+      async () => verifier.verify(await sign(key, {}, 'dpop+jwt')),
+      MalformedTokenError
+    )
+  })
+})
+
+Deno.test(
+  'RemoteJWKSVerifier restricts the header typ with the types option',
+  async () => {
+    const key = await createKey('k1')
+    await withJWKSServer([key.jwk], async ({ jwksUri }) => {
+      const verifier = createVerifier(jwksUri, { types: ['at+jwt'] })
+
+      await verifier.verify(await sign(key, {}, 'at+jwt'))
+      await assertRejects(
+        async () => verifier.verify(await sign(key, {}, 'JWT')),
+        MalformedTokenError
+      )
+      await assertRejects(
+        async () => verifier.verify(await sign(key, {}, null)),
+        MalformedTokenError
+      )
+    })
+  }
+)
@@ -1,6 +1,6 @@
 /**
  * JWT 服务模块，提供 JWT 令牌的生成、验证和管理功能。
- * 该模块实现了 JWTService 接口，提供了一个默认的 JWT 服务实现。
+ * 该模块实现了 JWTService 接口，提供了一个默认的 JWT 服务实现，支持访问令牌和刷新令牌。
  *
  * @example
  * ```ts
@@ -22,19 +22,75 @@
  * } catch (error) {
  *   console.error("Invalid token");
  * }
+ *
+ * // 签发访问令牌和刷新令牌
+ * const { accessToken, refreshToken } = await jwtService.issueTokenPair({ userId: "123" });
+ *
+ * // 访问令牌过期后，使用刷新令牌换取新的令牌对
+ * const tokens = await jwtService.refresh(refreshToken);
  * ```
  *
  * @module
  */
 
-import { sign, verify } from 'hono/jwt'
-import type { JWTConfig, JWTPayload, JWTService } from './types.ts'
+import { validateClaims, validatePayload } from './claims.ts'
+import type { JWTClaimsValidation } from './claims.ts'
+import {
+  InvalidRefreshTokenError,
+  InvalidTokenTypeError,
+  JWTError,
+  RefreshTokenReuseError,
+  TokenRevokedError
+} from './errors.ts'
+import {
+  decodeJWT,
+  isSymmetricAlgorithm,
+  signJWT,
+  toVerificationKey,
+  verifyJWTSignature
+} from './jws.ts'
+import type { DecodedJWT, JWTVerifier } from './jws.ts'
+import type { JWTKeyRing } from './keyring.ts'
+import {
+  MemoryRefreshTokenStore,
+  MemoryTokenRevocationStore
+} from './stores.ts'
+import type {
+  JWTAlgorithm,
+  JWTConfig,
+  JWTKey,
+  JWTPayload,
+  JWTPayloadValidator,
+  JWTSignOptions,
+  RefreshableJWTService,
+  RefreshTokenStore,
+  RevocableJWTService,
+  TokenPair,
+  TokenRevocationStore
+} from './types.ts'
+
+/** 刷新令牌的令牌类型声明值 */
+const REFRESH_TOKEN_TYPE = 'refresh'
+
+/** 刷新令牌中由服务写入的声明，刷新时不会复制到新令牌的负载中 */
+const REFRESH_TOKEN_CLAIMS = [
+  'exp',
+  'iat',
+  'jti',
+  'iss',
+  'aud',
+  'fid',
+  'token_type'
+]
 
 /**
  * JWT 服务的默认实现，提供 JWT 的生成、验证和管理功能
  * 该类实现了 JWTService 接口，提供了签发和验证 JWT 令牌的方法
+ * 还可以签发短期访问令牌和长期刷新令牌，刷新时轮换刷新令牌，
+ * 并在旧刷新令牌被重放时吊销整个令牌家族
  *
- * @implements {JWTService}
+ * @implements {RefreshableJWTService}
+ * @implements {RevocableJWTService}
  *
  * @example
  * ```ts
@@ -57,15 +113,191 @@ import type { JWTConfig, JWTPayload, JWTService } from './types.ts'
  *   console.error("Invalid token");
  * }
  * ```
+ *
+ * @example 使用非对称算法
+ * ```ts
+ * import { DefaultJWTService } from "@aiho/hono/jwt";
+ *
+ * // 认证服务持有私钥，负责签发令牌
+ * const issuer = new DefaultJWTService({
+ *   algorithm: "ES256",
+ *   privateKey: Deno.env.get("JWT_PRIVATE_KEY"), // PKCS#8 PEM
+ * });
+ *
+ * // 其他服务只持有公钥，只能验证令牌
+ * const verifier = new DefaultJWTService({
+ *   algorithm: "ES256",
+ *   publicKey: Deno.env.get("JWT_PUBLIC_KEY"), // SPKI PEM
+ * });
+ *
+ * const payload = await verifier.verify(await issuer.sign({ userId: "123" }));
+ * ```
+ *
+ * @example 校验标准声明
+ * ```ts
+ * import { DefaultJWTService, TokenExpiredError } from "@aiho/hono/jwt";
+ *
+ * const jwtService = new DefaultJWTService({
+ *   secret: "your-secret-key",
+ *   issuer: "https://auth.example.com",
+ *   audience: "https://api.example.com",
+ *   requireSubject: true,
+ *   leeway: 30, // 允许 30 秒时钟偏差
+ *   maxTokenAge: 24 * 60 * 60 // 签发超过 1 天的令牌一律拒绝
+ * });
+ *
+ * // 自动写入 iss、aud、iat 和 jti
+ * const token = await jwtService.sign({ sub: "user-123" });
+ *
+ * try {
+ *   await jwtService.verify(token);
+ * } catch (error) {
+ *   if (error instanceof TokenExpiredError) {
+ *     // 令牌已过期
+ *   }
+ * }
+ * ```
+ *
+ * @example 类型化负载
+ * ```ts
+ * import { z } from "zod";
+ * import { DefaultJWTService } from "@aiho/hono/jwt";
+ *
+ * type Claims = { sub: string; role: "admin" | "user" };
+ *
+ * const jwtService = new DefaultJWTService<Claims>({
+ *   secret: "your-secret-key",
+ *   // 可选：verify 时校验负载结构，也可以传入 (payload) => Claims 形式的函数
+ *   validate: z.object({ sub: z.string(), role: z.enum(["admin", "user"]) })
+ * });
+ *
+ * const token = await jwtService.sign({ sub: "123", role: "admin" });
+ * const { role } = await jwtService.verify(token); // role: "admin" | "user"
+ * ```
+ *
+ * @example 吊销令牌
+ * ```ts
+ * import { DefaultJWTService } from "@aiho/hono/jwt";
+ * import { KVTokenRevocationStore } from "@aiho/hono/jwt/stores";
+ *
+ * const jwtService = new DefaultJWTService({
+ *   secret: "your-secret-key",
+ *   revocationStore: new KVTokenRevocationStore(await Deno.openKv())
+ * });
+ *
+ * // 登出：吊销当前令牌
+ * await jwtService.revoke(token);
+ *
+ * // 账号被盗：吊销该用户此前签发的所有令牌
+ * await jwtService.revokeAllForSubject("user-123");
+ * ```
+ *
+ * @example 刷新令牌
+ * ```ts
+ * import { DefaultJWTService, RefreshTokenReuseError } from "@aiho/hono/jwt";
+ *
+ * const jwtService = new DefaultJWTService({
+ *   secret: "your-secret-key",
+ *   accessTokenValidityPeriod: 15 * 60, // 15 分钟
+ *   refreshTokenValidityPeriod: 30 * 24 * 60 * 60 // 30 天
+ * });
+ *
+ * app.post("/login", async (c) => {
+ *   return c.json(await jwtService.issueTokenPair({ userId: "123" }));
+ * });
+ *
+ * app.post("/token/refresh", async (c) => {
+ *   const { refreshToken } = await c.req.json();
+ *   try {
+ *     return c.json(await jwtService.refresh(refreshToken));
+ *   } catch (error) {
+ *     if (error instanceof RefreshTokenReuseError) {
+ *       // 令牌可能已泄露，该登录产生的所有刷新令牌均已失效
+ *     }
+ *     return c.json({ error: "无效的刷新令牌" }, 401);
+ *   }
+ * });
+ * ```
  */
-export class DefaultJWTService implements JWTService {
-  private secret: string
+export class DefaultJWTService<T extends JWTPayload = JWTPayload>
+  implements RefreshableJWTService<T>, RevocableJWTService<T>
+{
+  private algorithm: JWTAlgorithm
+  private signingKey: JWTKey | undefined
+  private verificationKeys: JWTKey[] = []
+  private keyRing: JWTKeyRing | undefined
   private validityPeriod: number
+  private accessTokenValidityPeriod: number
+  private refreshTokenValidityPeriod: number
+  private refreshTokenStore: RefreshTokenStore
+  private revocationStore: TokenRevocationStore
+  private issuer: string | undefined
+  private audience: string | string[] | undefined
+  private requireSubject: boolean
+  private leeway: number
+  private maxTokenAge: number | undefined
+  private validate: JWTPayloadValidator<T> | undefined
 
-  constructor(config: JWTConfig) {
-    this.secret = config.secret
+  /**
+   * @param config JWT 服务配置
+   * @throws {JWTError} 如果未配置 keyRing 时，HS 系列算法未配置 secret，或非对称算法既未配置 privateKey 也未配置 publicKey
+   */
+  constructor(config: JWTConfig<T>) {
+    this.algorithm = config.algorithm || 'HS256'
+    this.keyRing = config.keyRing
+    if (!this.keyRing) {
+      this.configureKeys(config)
+    }
     // 默认7天
     this.validityPeriod = config.validityPeriod || 7 * 24 * 60 * 60
+    // 默认15分钟
+    this.accessTokenValidityPeriod = config.accessTokenValidityPeriod || 15 * 60
+    // 默认30天
+    this.refreshTokenValidityPeriod =
+      config.refreshTokenValidityPeriod || 30 * 24 * 60 * 60
+    this.refreshTokenStore =
+      config.refreshTokenStore || new MemoryRefreshTokenStore()
+    this.revocationStore =
+      config.revocationStore || new MemoryTokenRevocationStore()
+    this.issuer = config.issuer
+    this.audience = config.audience
+    this.requireSubject = config.requireSubject || false
+    this.leeway = config.leeway || 0
+    this.maxTokenAge = config.maxTokenAge
+    this.validate = config.validate
+  }
+
+  /**
+   * 根据 secret、privateKey 和 publicKey 配置签名和验证密钥
+   * @param config JWT 服务配置
+   * @throws {JWTError} 如果缺少当前算法所需的密钥
+   * @private
+   */
+  private configureKeys(config: JWTConfig<T>): void {
+    if (isSymmetricAlgorithm(this.algorithm)) {
+      if (!config.secret) {
+        throw new JWTError(`A secret is required for ${this.algorithm}`)
+      }
+      this.signingKey = config.secret
+      this.verificationKeys = [config.secret]
+    } else {
+      const publicKeys =
+        config.publicKey === undefined
+          ? []
+          : Array.isArray(config.publicKey)
+            ? config.publicKey
+            : [config.publicKey]
+      this.signingKey = config.privateKey
+      this.verificationKeys =
+        publicKeys.length || !config.privateKey
+          ? publicKeys
+          : [toVerificationKey(config.privateKey)]
+      if (!this.verificationKeys.length) {
+        throw new JWTError(
+          `A privateKey or publicKey is required for ${this.algorithm}`
+        )
+      }
+    }
   }
 
   /**
@@ -73,30 +305,371 @@ export class DefaultJWTService implements JWTService {
    * @returns 过期时间戳（秒）
    * @private
    */
-  private getExpirationTime(): number {
-    return Math.floor(Date.now() / 1000) + this.validityPeriod
+  private getExpirationTime(
+    validityPeriod: number = this.validityPeriod
+  ): number {
+    return Math.floor(Date.now() / 1000) + validityPeriod
+  }
+
+  /**
+   * 获取由服务写入的标准声明
+   * @returns iss、aud、iat 和 jti
+   * @private
+   */
+  private getStandardClaims(): JWTPayload {
+    const claims: JWTPayload = {
+      iat: Math.floor(Date.now() / 1000),
+      jti: crypto.randomUUID()
+    }
+    if (this.issuer !== undefined) {
+      claims.iss = this.issuer
+    }
+    if (this.audience !== undefined) {
+      claims.aud = this.audience
+    }
+    return claims
   }
 
   /**
    * 签发 JWT 令牌
+   * 自动写入 exp、iat 和 jti，配置了 issuer 和 audience 时同时写入 iss 和 aud
    * @param payload JWT 负载数据
+   * @param options 签发选项，可以通过 jkt 将令牌绑定到客户端的 DPoP 公钥，或通过 validityPeriod 指定有效期
    * @returns 生成的 JWT 令牌
+   * @throws {JWTError} 如果使用非对称算法且未配置 privateKey
    */
-  async sign(payload: JWTPayload): Promise<string> {
-    return await sign(
-      { ...payload, exp: this.getExpirationTime() },
-      this.secret
-    )
+  async sign(payload: T, options: JWTSignOptions = {}): Promise<string> {
+    const claims: JWTPayload = {
+      ...payload,
+      ...this.getStandardClaims(),
+      exp: this.getExpirationTime(options.validityPeriod)
+    }
+    if (options.jkt !== undefined) {
+      claims.cnf = { ...(payload.cnf as object), jkt: options.jkt }
+    }
+    return await this.signPayload(claims)
   }
 
   /**
    * 验证 JWT 令牌
    * @param token JWT 令牌字符串
    * @returns JWT 负载数据
-   * @throws 如果令牌无效或已过期
+   * @throws {MalformedTokenError} 如果令牌格式不正确
+   * @throws {InvalidSignatureError} 如果签名无效
+   * @throws {TokenExpiredError} 如果令牌已过期
+   * @throws {TokenNotYetValidError} 如果令牌尚未生效
+   * @throws {InvalidIssuedAtError} 如果签发时间无效
+   * @throws {TokenTooOldError} 如果令牌签发时间超过 maxTokenAge
+   * @throws {InvalidIssuerError} 如果签发者不符
+   * @throws {InvalidAudienceError} 如果受众不符
+   * @throws {MissingSubjectError} 如果要求 sub 但令牌没有
+   * @throws {TokenRevokedError} 如果令牌已被吊销
+   * @throws {InvalidTokenTypeError} 如果传入的是刷新令牌
+   * @throws {InvalidPayloadError} 如果负载数据未通过校验器的校验
+   */
+  async verify(token: string): Promise<T> {
+    const payload = await this.verifyToken(token, {
+      requireSubject: this.requireSubject,
+      maxTokenAge: this.maxTokenAge
+    })
+    if (payload.token_type === REFRESH_TOKEN_TYPE) {
+      throw new InvalidTokenTypeError(
+        'Refresh token cannot be used as access token'
+      )
+    }
+    return await validatePayload(payload, this.validate)
+  }
+
+  /**
+   * 签发访问令牌和刷新令牌
+   * 每次调用都会创建一个新的刷新令牌家族
+   *
+   * @param payload JWT 负载数据，会同时写入访问令牌和刷新令牌
+   * @returns 令牌对
+   */
+  async issueTokenPair(payload: T): Promise<TokenPair> {
+    const familyId = crypto.randomUUID()
+    const jti = crypto.randomUUID()
+    await this.refreshTokenStore.create({
+      familyId,
+      currentJti: jti,
+      expiresAt: Date.now() + this.refreshTokenValidityPeriod * 1000,
+      revoked: false
+    })
+    return await this.signTokenPair(payload, familyId, jti)
+  }
+
+  /**
+   * 使用刷新令牌换取新的令牌对
+   * 刷新令牌只能使用一次；已被轮换的旧刷新令牌再次出现时，会吊销整个令牌家族
+   *
+   * @param refreshToken 刷新令牌
+   * @returns 新的令牌对
+   * @throws {InvalidRefreshTokenError} 如果刷新令牌无效、已过期或所属家族已被吊销
+   * @throws {RefreshTokenReuseError} 如果刷新令牌已被使用过
+   */
+  async refresh(refreshToken: string): Promise<TokenPair> {
+    const payload = await this.verifyRefreshToken(refreshToken)
+    const familyId = payload.fid as string
+    const jti = payload.jti as string
+
+    const family = await this.refreshTokenStore.get(familyId)
+    if (!family || family.revoked) {
+      throw new InvalidRefreshTokenError('Refresh token family revoked')
+    }
+
+    const nextJti = crypto.randomUUID()
+    const rotated =
+      family.currentJti === jti &&
+      (await this.refreshTokenStore.rotate(
+        familyId,
+        jti,
+        nextJti,
+        Date.now() + this.refreshTokenValidityPeriod * 1000
+      ))
+    if (!rotated) {
+      // 旧令牌被重放（或被并发使用），令牌可能已泄露
+      await this.refreshTokenStore.revoke(familyId)
+      throw new RefreshTokenReuseError()
+    }
+
+    const claims: JWTPayload = {}
+    for (const [key, value] of Object.entries(payload)) {
+      if (!REFRESH_TOKEN_CLAIMS.includes(key)) {
+        claims[key] = value
+      }
+    }
+    return await this.signTokenPair(claims, familyId, nextJti)
+  }
+
+  /**
+   * 吊销刷新令牌所属的整个家族，通常在用户登出时调用
+   * @param refreshToken 刷新令牌
+   * @throws {InvalidRefreshTokenError} 如果刷新令牌无效或已过期
+   */
+  async revokeRefreshToken(refreshToken: string): Promise<void> {
+    const payload = await this.verifyRefreshToken(refreshToken)
+    await this.refreshTokenStore.revoke(payload.fid as string)
+  }
+
+  /**
+   * 吊销令牌，此后 verify 和 refresh 都会拒绝该令牌
+   * 传入令牌字符串时会先验证签名，记录保留到令牌过期；
+   * 只传入令牌 ID 时无法得知过期时间，记录按最长有效期保留
+   *
+   * @param tokenOrJti 令牌字符串或令牌 ID（jti）
+   * @throws {MalformedTokenError} 如果令牌格式不正确
+   * @throws {InvalidSignatureError} 如果令牌签名无效
+   * @throws {JWTError} 如果令牌没有 jti
+   */
+  async revoke(tokenOrJti: string): Promise<void> {
+    const now = Date.now()
+    if (tokenOrJti.split('.').length !== 3) {
+      await this.revocationStore.revoke(
+        tokenOrJti,
+        now + this.getRevocationPeriod() * 1000
+      )
+      return
+    }
+
+    const jwt = decodeJWT(tokenOrJti)
+    await verifyJWTSignature(jwt, this.getVerifiers(jwt))
+    const { jti, exp } = jwt.payload
+    if (typeof jti !== 'string') {
+      throw new JWTError('Token without jti cannot be revoked')
+    }
+    const expiresAt =
+      typeof exp === 'number'
+        ? (exp + this.leeway) * 1000
+        : now + this.getRevocationPeriod() * 1000
+    // 已过期的令牌无需吊销
+    if (expiresAt > now) {
+      await this.revocationStore.revoke(jti, expiresAt)
+    }
+  }
+
+  /**
+   * 吊销主题在指定时间之前签发的所有令牌（包括刷新令牌），通常在修改密码或账号被盗时调用
+   * 令牌的 iat 只精确到秒，与吊销时间点同一秒内签发的令牌也会被拒绝
+   *
+   * @param subject 主题（sub）
+   * @param before 时间点，默认为当前时间
+   */
+  async revokeAllForSubject(
+    subject: string,
+    before: Date | number = Date.now()
+  ): Promise<void> {
+    const cutoff = before instanceof Date ? before.getTime() : before
+    await this.revocationStore.revokeSubject(
+      subject,
+      cutoff,
+      cutoff + this.getRevocationPeriod() * 1000
+    )
+  }
+
+  /**
+   * 获取吊销记录需要保留的时长，即任意令牌的最长有效期加上时钟偏差
+   * @returns 时长（秒）
+   * @private
+   */
+  private getRevocationPeriod(): number {
+    return (
+      Math.max(
+        this.validityPeriod,
+        this.accessTokenValidityPeriod,
+        this.refreshTokenValidityPeriod
+      ) + this.leeway
+    )
+  }
+
+  /**
+   * 检查令牌是否已被吊销
+   * @param payload JWT 负载数据
+   * @throws {TokenRevokedError} 如果令牌或其主题已被吊销
+   * @private
+   */
+  private async checkRevocation(payload: JWTPayload): Promise<void> {
+    if (
+      typeof payload.jti === 'string' &&
+      (await this.revocationStore.isRevoked(payload.jti))
+    ) {
+      throw new TokenRevokedError()
+    }
+    if (typeof payload.sub === 'string') {
+      const before = await this.revocationStore.getSubjectRevocation(
+        payload.sub
+      )
+      if (
+        before !== null &&
+        (typeof payload.iat !== 'number' || payload.iat * 1000 < before)
+      ) {
+        throw new TokenRevokedError()
+      }
+    }
+  }
+
+  /**
+   * 验证刷新令牌的签名、有效期和类型
+   * @param refreshToken 刷新令牌
+   * @returns 刷新令牌负载数据
+   * @throws {InvalidRefreshTokenError} 如果刷新令牌无效
+   * @private
+   */
+  private async verifyRefreshToken(refreshToken: string): Promise<JWTPayload> {
+    let payload: JWTPayload
+    try {
+      payload = await this.verifyToken(refreshToken)
+    } catch (_) {
+      throw new InvalidRefreshTokenError()
+    }
+    if (
+      payload.token_type !== REFRESH_TOKEN_TYPE ||
+      typeof payload.fid !== 'string' ||
+      typeof payload.jti !== 'string'
+    ) {
+      throw new InvalidRefreshTokenError()
+    }
+    return payload
+  }
+
+  /**
+   * 签发属于指定家族的令牌对
+   * @param payload JWT 负载数据
+   * @param familyId 刷新令牌家族 ID
+   * @param jti 刷新令牌 ID
+   * @returns 令牌对
+   * @private
+   */
+  private async signTokenPair(
+    payload: JWTPayload,
+    familyId: string,
+    jti: string
+  ): Promise<TokenPair> {
+    const now = Math.floor(Date.now() / 1000)
+    const accessToken = await this.signPayload({
+      ...payload,
+      ...this.getStandardClaims(),
+      exp: now + this.accessTokenValidityPeriod
+    })
+    const refreshToken = await this.signPayload({
+      ...payload,
+      ...this.getStandardClaims(),
+      token_type: REFRESH_TOKEN_TYPE,
+      fid: familyId,
+      jti,
+      exp: now + this.refreshTokenValidityPeriod
+    })
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: this.accessTokenValidityPeriod,
+      refreshExpiresIn: this.refreshTokenValidityPeriod
+    }
+  }
+
+  /**
+   * 使用配置的算法和密钥签名负载
+   * @param payload 完整的 JWT 负载数据
+   * @returns JWT 令牌
+   * @throws {JWTError} 如果未配置签名密钥
+   * @private
+   */
+  private async signPayload(payload: JWTPayload): Promise<string> {
+    if (this.keyRing) {
+      const signer = this.keyRing.getSigner()
+      return await signJWT(payload, signer.key, signer.algorithm, signer.kid)
+    }
+    if (!this.signingKey) {
+      throw new JWTError('No private key configured for signing')
+    }
+    return await signJWT(payload, this.signingKey, this.algorithm)
+  }
+
+  /**
+   * 使用配置的算法和密钥验证令牌签名，并校验有效期、签发者和受众
+   * 配置了多个公钥时依次尝试，签名与所有公钥都不匹配时才失败；
+   * 使用密钥环时按令牌头部的 kid 选择密钥，头部的 alg 必须与密钥的算法一致
+   * @param token JWT 令牌字符串
+   * @param claims 额外的声明校验选项，仅用于访问令牌
+   * @returns JWT 负载数据
+   * @throws {MalformedTokenError} 如果令牌格式不正确
+   * @throws {InvalidSignatureError} 如果没有匹配的密钥或签名无效
+   * @throws 如果声明校验失败，参见 verify
+   * @private
+   */
+  private async verifyToken(
+    token: string,
+    claims: Pick<JWTClaimsValidation, 'requireSubject' | 'maxTokenAge'> = {}
+  ): Promise<JWTPayload> {
+    const jwt = decodeJWT(token)
+    await verifyJWTSignature(jwt, this.getVerifiers(jwt))
+    validateClaims(jwt.payload, {
+      ...claims,
+      issuer: this.issuer,
+      audience: this.audience,
+      leeway: this.leeway
+    })
+    await this.checkRevocation(jwt.payload)
+    return jwt.payload
+  }
+
+  /**
+   * 获取可用于验证令牌签名的算法和密钥
+   * @param jwt 解码后的 JWT
+   * @returns 算法和验证密钥列表
+   * @private
    */
-  async verify(token: string): Promise<JWTPayload> {
-    return await verify(token, this.secret)
+  private getVerifiers(jwt: DecodedJWT): JWTVerifier[] {
+    if (this.keyRing) {
+      const kid = jwt.header.kid
+      return this.keyRing.getVerifiers(
+        typeof kid === 'string' ? kid : undefined
+      )
+    }
+    return this.verificationKeys.map((key) => ({
+      algorithm: this.algorithm,
+      key
+    }))
   }
 
   /**
@@ -0,0 +1,231 @@
+/**
+ * JWT 会话模块，提供了基于 cookie 的会话辅助函数。
+ * 登录时签发令牌并写入 Secure、HttpOnly、SameSite 的 cookie，中间件从 cookie 读取并验证令牌，
+ * 退出登录时删除 cookie。由于浏览器会自动携带 cookie，会话默认启用双重提交 cookie 的 CSRF 防护。
+ *
+ * @example
+ * ```ts
+ * import { Hono } from "hono";
+ * import { createJWTSession, DefaultJWTService } from "@aiho/hono/jwt";
+ *
+ * const jwtService = new DefaultJWTService({ secret: "your-secret-key" });
+ * const session = createJWTSession(jwtService);
+ *
+ * const app = new Hono();
+ *
+ * app.post("/login", async (c) => {
+ *   const user = await authenticate(await c.req.json());
+ *   await session.login(c, { sub: user.id });
+ *   return c.json({ ok: true });
+ * });
+ *
+ * app.post("/logout", session.middleware, async (c) => {
+ *   await session.logout(c);
+ *   return c.json({ ok: true });
+ * });
+ *
+ * // 前端读取 aiho_csrf cookie，并在 POST、PUT、PATCH、DELETE 请求中通过 X-CSRF-Token 请求头提交
+ * app.post("/posts", session.middleware, (c) => {
+ *   const { sub } = c.get("jwtPayload");
+ *   return c.json({ author: sub });
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { Context, Next } from 'hono'
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie'
+import type { CookieOptions } from 'hono/utils/cookie'
+import { timingSafeEqual } from '../utils.ts'
+import { JWTError } from './errors.ts'
+import { fromCookie } from './extractors.ts'
+import { createJWTMiddleware } from './middleware.ts'
+import type {
+  JWTMiddlewareHandler,
+  JWTPayload,
+  JWTService,
+  JWTSession,
+  JWTSessionOptions,
+  RevocableJWTService,
+  Variables
+} from './types.ts'
+
+/** 默认的会话 cookie 名称 */
+const DEFAULT_SESSION_COOKIE = 'aiho_session'
+
+/** 默认的 CSRF cookie 名称 */
+const DEFAULT_CSRF_COOKIE = 'aiho_csrf'
+
+/** 需要校验 CSRF 令牌的请求方法 */
+const UNSAFE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE']
+
+/**
+ * 判断 JWT 服务是否支持吊销
+ * @param service JWT 服务
+ * @returns 是否支持吊销
+ */
+const isRevocable = <T extends JWTPayload>(
+  service: JWTService<T>
+): service is RevocableJWTService<T> =>
+  typeof (service as RevocableJWTService<T>).revoke === 'function'
+
+/**
+ * 创建基于 cookie 的 JWT 会话
+ *
+ * @template T JWT 负载数据类型，通常由 jwtService 推断
+ * @param jwtService 用于签发和验证令牌的 JWT 服务，可以是 DefaultJWTService 或 JWEService
+ * @param options 会话配置，包括 cookie 名称和选项、CSRF 防护以及中间件选项
+ * @returns 会话对象，包括 login、logout、csrfToken 和 middleware；
+ * middleware.optional 为 true 时，中间件写入的 jwtPayload 类型包含 undefined
+ *
+ * @example 服务端渲染的表单
+ * ```ts
+ * import { createJWTSession, JWEService } from "@aiho/hono/jwt";
+ *
+ * const session = createJWTSession(new JWEService({ secret: "your-secret-key" }), {
+ *   cookieName: "sid",
+ *   cookieOptions: { sameSite: "Strict" },
+ *   middleware: { optional: true }
+ * });
+ *
+ * app.get("/settings", session.middleware, (c) => {
+ *   return c.html(`<form method="post">
+ *     <input type="hidden" name="_csrf" value="${session.csrfToken(c)}">
+ *     <button>保存</button>
+ *   </form>`);
+ * });
+ *
+ * app.post("/settings", session.middleware, (c) => c.text("已保存"));
+ * ```
+ */
+export function createJWTSession<T extends JWTPayload = JWTPayload>(
+  jwtService: JWTService<T>,
+  options: JWTSessionOptions<T> & { middleware: { optional: true } }
+): JWTSession<T, T | undefined>
+export function createJWTSession<T extends JWTPayload = JWTPayload>(
+  jwtService: JWTService<T>,
+  options?: JWTSessionOptions<T>
+): JWTSession<T>
+export function createJWTSession<T extends JWTPayload = JWTPayload>(
+  jwtService: JWTService<T>,
+  options: JWTSessionOptions<T> = {}
+): JWTSession<T, T | undefined> {
+  const cookieName = options.cookieName || DEFAULT_SESSION_COOKIE
+  const cookieOptions: CookieOptions = {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'Lax',
+    path: '/',
+    maxAge: jwtService.getValidityPeriod(),
+    ...options.cookieOptions
+  }
+  const csrf =
+    options.csrf === false
+      ? null
+      : {
+          cookieName: options.csrf?.cookieName || DEFAULT_CSRF_COOKIE,
+          headerName: options.csrf?.headerName || 'X-CSRF-Token',
+          formField: options.csrf?.formField || '_csrf'
+        }
+
+  // 是否可选由运行时的 options.middleware 决定，按可能为 undefined 处理
+  const authenticate = createJWTMiddleware(jwtService.verify.bind(jwtService), {
+    ...options.middleware,
+    extractors: [fromCookie(cookieName)]
+  }) as JWTMiddlewareHandler<T | undefined>
+
+  /**
+   * 生成新的 CSRF 令牌并写入 cookie
+   * @param c Hono 上下文
+   * @returns CSRF 令牌
+   */
+  const issueCSRFToken = (c: Context): string => {
+    const token = crypto.randomUUID()
+    setCookie(c, csrf!.cookieName, token, {
+      ...cookieOptions,
+      // 前端需要读取该 cookie 并通过请求头提交
+      httpOnly: false
+    })
+    return token
+  }
+
+  /**
+   * 校验请求提交的 CSRF 令牌是否与 cookie 一致
+   * @param c Hono 上下文
+   * @returns 是否一致
+   */
+  const verifyCSRFToken = async (c: Context): Promise<boolean> => {
+    const expected = getCookie(c, csrf!.cookieName)
+    if (!expected) {
+      return false
+    }
+    let submitted = c.req.header(csrf!.headerName)
+    if (!submitted) {
+      const contentType = c.req.header('Content-Type') || ''
+      if (
+        contentType.startsWith('application/x-www-form-urlencoded') ||
+        contentType.startsWith('multipart/form-data')
+      ) {
+        const field = (await c.req.parseBody())[csrf!.formField]
+        submitted = typeof field === 'string' ? field : undefined
+      }
+    }
+    return !!submitted && timingSafeEqual(submitted, expected)
+  }
+
+  return {
+    async login(c: Context, payload: T): Promise<string> {
+      const token = await jwtService.sign(payload)
+      setCookie(c, cookieName, token, cookieOptions)
+      if (csrf) {
+        // 登录后更换 CSRF 令牌，防止登录前被植入的令牌继续有效
+        issueCSRFToken(c)
+      }
+      return token
+    },
+
+    async logout(c: Context): Promise<void> {
+      const token = getCookie(c, cookieName)
+      if (token && isRevocable(jwtService)) {
+        try {
+          await jwtService.revoke(token)
+        } catch (_) {
+          // 令牌无效时无需吊销
+        }
+      }
+      const deleteOptions = {
+        path: cookieOptions.path,
+        domain: cookieOptions.domain,
+        secure: cookieOptions.secure
+      }
+      deleteCookie(c, cookieName, deleteOptions)
+      if (csrf) {
+        deleteCookie(c, csrf.cookieName, deleteOptions)
+      }
+    },
+
+    csrfToken(c: Context): string {
+      if (!csrf) {
+        throw new JWTError('CSRF protection is disabled')
+      }
+      return getCookie(c, csrf.cookieName) || issueCSRFToken(c)
+    },
+
+    async middleware(
+      c: Context<{ Variables: Variables<T | undefined> }>,
+      next: Next
+    ): Promise<Response | void> {
+      // 只有携带会话 cookie 的请求才可能被跨站伪造
+      if (
+        csrf &&
+        UNSAFE_METHODS.includes(c.req.method) &&
+        getCookie(c, cookieName) &&
+        !(await verifyCSRFToken(c))
+      ) {
+        return c.json({ error: 'CSRF 令牌无效' }, 403)
+      }
+      return await authenticate(c, next)
+    }
+  }
+}
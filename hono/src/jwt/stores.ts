@@ -0,0 +1,380 @@
+/**
+ * JWT 存储模块，提供了 RefreshTokenStore、TokenRevocationStore 和 DPoPReplayCache 接口的内置实现。
+ * 包括默认的内存存储和基于 Deno KV 的共享存储，后者可用于多实例部署。
+ *
+ * @example
+ * ```ts
+ * import { DefaultJWTService } from "@aiho/hono/jwt";
+ * import { KVRefreshTokenStore, KVTokenRevocationStore } from "@aiho/hono/jwt/stores";
+ *
+ * const kv = await Deno.openKv();
+ * const jwtService = new DefaultJWTService({
+ *   secret: "your-secret-key",
+ *   refreshTokenStore: new KVRefreshTokenStore(kv),
+ *   revocationStore: new KVTokenRevocationStore(kv)
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type {
+  DPoPReplayCache,
+  RefreshTokenFamily,
+  RefreshTokenStore,
+  TokenRevocationStore
+} from './types.ts'
+
+/**
+ * 基于 Map 的内存刷新令牌家族存储
+ * 适用于单进程部署，进程重启后所有刷新令牌都会失效
+ *
+ * @implements {RefreshTokenStore}
+ */
+export class MemoryRefreshTokenStore implements RefreshTokenStore {
+  private families = new Map<string, RefreshTokenFamily>()
+
+  create(family: RefreshTokenFamily): Promise<void> {
+    this.removeExpired()
+    this.families.set(family.familyId, { ...family })
+    return Promise.resolve()
+  }
+
+  get(familyId: string): Promise<RefreshTokenFamily | null> {
+    const family = this.families.get(familyId)
+    if (!family || family.expiresAt <= Date.now()) {
+      return Promise.resolve(null)
+    }
+    return Promise.resolve({ ...family })
+  }
+
+  rotate(
+    familyId: string,
+    currentJti: string,
+    nextJti: string,
+    expiresAt: number
+  ): Promise<boolean> {
+    const family = this.families.get(familyId)
+    if (!family || family.revoked || family.currentJti !== currentJti) {
+      return Promise.resolve(false)
+    }
+    family.currentJti = nextJti
+    family.expiresAt = expiresAt
+    return Promise.resolve(true)
+  }
+
+  revoke(familyId: string): Promise<void> {
+    const family = this.families.get(familyId)
+    if (family) {
+      family.revoked = true
+    }
+    return Promise.resolve()
+  }
+
+  /**
+   * 删除已过期的家族
+   * @private
+   */
+  private removeExpired(): void {
+    const now = Date.now()
+    for (const [familyId, family] of this.families.entries()) {
+      if (family.expiresAt <= now) {
+        this.families.delete(familyId)
+      }
+    }
+  }
+}
+
+/**
+ * Deno KV 刷新令牌家族存储配置
+ */
+export interface KVRefreshTokenStoreOptions {
+  /** KV 键前缀，默认为 "jwt_refresh_family" */
+  prefix?: string
+}
+
+/**
+ * 基于 Deno KV 的刷新令牌家族存储
+ * 所有连接到同一 KV 数据库的实例共享家族信息，轮换通过 atomic().check() 保证原子性
+ *
+ * @implements {RefreshTokenStore}
+ */
+export class KVRefreshTokenStore implements RefreshTokenStore {
+  private kv: Deno.Kv
+  private prefix: string
+
+  constructor(kv: Deno.Kv, options: KVRefreshTokenStoreOptions = {}) {
+    this.kv = kv
+    this.prefix = options.prefix || 'jwt_refresh_family'
+  }
+
+  /**
+   * 获取家族对应的 KV 键
+   * @param familyId 家族 ID
+   * @returns KV 键
+   * @private
+   */
+  private key(familyId: string): Deno.KvKey {
+    return [this.prefix, familyId]
+  }
+
+  async create(family: RefreshTokenFamily): Promise<void> {
+    await this.kv.set(this.key(family.familyId), family, {
+      expireIn: Math.max(family.expiresAt - Date.now(), 1)
+    })
+  }
+
+  async get(familyId: string): Promise<RefreshTokenFamily | null> {
+    const entry = await this.kv.get<RefreshTokenFamily>(this.key(familyId))
+    if (!entry.value || entry.value.expiresAt <= Date.now()) {
+      return null
+    }
+    return entry.value
+  }
+
+  async rotate(
+    familyId: string,
+    currentJti: string,
+    nextJti: string,
+    expiresAt: number
+  ): Promise<boolean> {
+    const entry = await this.kv.get<RefreshTokenFamily>(this.key(familyId))
+    const family = entry.value
+    if (!family || family.revoked || family.currentJti !== currentJti) {
+      return false
+    }
+    const result = await this.kv
+      .atomic()
+      .check(entry)
+      .set(
+        this.key(familyId),
+        { ...family, currentJti: nextJti, expiresAt },
+        { expireIn: Math.max(expiresAt - Date.now(), 1) }
+      )
+      .commit()
+    return result.ok
+  }
+
+  async revoke(familyId: string): Promise<void> {
+    const entry = await this.kv.get<RefreshTokenFamily>(this.key(familyId))
+    if (!entry.value) {
+      return
+    }
+    await this.kv.set(
+      this.key(familyId),
+      { ...entry.value, revoked: true },
+      { expireIn: Math.max(entry.value.expiresAt - Date.now(), 1) }
+    )
+  }
+}
+
+/** 主题吊销记录 */
+interface SubjectRevocation {
+  /** 吊销时间点（毫秒） */
+  before: number
+  /** 记录过期时间戳（毫秒） */
+  expiresAt: number
+}
+
+/**
+ * 基于 Map 的内存令牌吊销存储
+ * 适用于单进程部署，进程重启后吊销记录会丢失
+ *
+ * @implements {TokenRevocationStore}
+ */
+export class MemoryTokenRevocationStore implements TokenRevocationStore {
+  private tokens = new Map<string, number>()
+  private subjects = new Map<string, SubjectRevocation>()
+
+  revoke(jti: string, expiresAt: number): Promise<void> {
+    this.removeExpired()
+    this.tokens.set(jti, Math.max(expiresAt, this.tokens.get(jti) ?? 0))
+    return Promise.resolve()
+  }
+
+  isRevoked(jti: string): Promise<boolean> {
+    const expiresAt = this.tokens.get(jti)
+    return Promise.resolve(expiresAt !== undefined && expiresAt > Date.now())
+  }
+
+  revokeSubject(
+    subject: string,
+    before: number,
+    expiresAt: number
+  ): Promise<void> {
+    this.removeExpired()
+    const current = this.subjects.get(subject)
+    this.subjects.set(subject, {
+      before: Math.max(before, current?.before ?? 0),
+      expiresAt: Math.max(expiresAt, current?.expiresAt ?? 0)
+    })
+    return Promise.resolve()
+  }
+
+  getSubjectRevocation(subject: string): Promise<number | null> {
+    const revocation = this.subjects.get(subject)
+    if (!revocation || revocation.expiresAt <= Date.now()) {
+      return Promise.resolve(null)
+    }
+    return Promise.resolve(revocation.before)
+  }
+
+  /**
+   * 删除已过期的记录
+   * @private
+   */
+  private removeExpired(): void {
+    const now = Date.now()
+    for (const [jti, expiresAt] of this.tokens.entries()) {
+      if (expiresAt <= now) {
+        this.tokens.delete(jti)
+      }
+    }
+    for (const [subject, revocation] of this.subjects.entries()) {
+      if (revocation.expiresAt <= now) {
+        this.subjects.delete(subject)
+      }
+    }
+  }
+}
+
+/**
+ * Deno KV 令牌吊销存储配置
+ */
+export interface KVTokenRevocationStoreOptions {
+  /** KV 键前缀，默认为 "jwt_revocation" */
+  prefix?: string
+}
+
+/**
+ * 基于 Deno KV 的令牌吊销存储
+ * 所有连接到同一 KV 数据库的实例共享吊销记录，记录通过 expireIn 在令牌过期后自动删除
+ *
+ * @implements {TokenRevocationStore}
+ */
+export class KVTokenRevocationStore implements TokenRevocationStore {
+  private kv: Deno.Kv
+  private prefix: string
+
+  constructor(kv: Deno.Kv, options: KVTokenRevocationStoreOptions = {}) {
+    this.kv = kv
+    this.prefix = options.prefix || 'jwt_revocation'
+  }
+
+  async revoke(jti: string, expiresAt: number): Promise<void> {
+    await this.kv.set([this.prefix, 'jti', jti], expiresAt, {
+      expireIn: Math.max(expiresAt - Date.now(), 1)
+    })
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    const entry = await this.kv.get<number>([this.prefix, 'jti', jti])
+    return entry.value !== null && entry.value > Date.now()
+  }
+
+  async revokeSubject(
+    subject: string,
+    before: number,
+    expiresAt: number
+  ): Promise<void> {
+    const key: Deno.KvKey = [this.prefix, 'sub', subject]
+    // 并发写入时重试，保证保留较晚的时间点
+    while (true) {
+      const entry = await this.kv.get<SubjectRevocation>(key)
+      const revocation = {
+        before: Math.max(before, entry.value?.before ?? 0),
+        expiresAt: Math.max(expiresAt, entry.value?.expiresAt ?? 0)
+      }
+      const result = await this.kv
+        .atomic()
+        .check(entry)
+        .set(key, revocation, {
+          expireIn: Math.max(revocation.expiresAt - Date.now(), 1)
+        })
+        .commit()
+      if (result.ok) {
+        return
+      }
+    }
+  }
+
+  async getSubjectRevocation(subject: string): Promise<number | null> {
+    const entry = await this.kv.get<SubjectRevocation>([
+      this.prefix,
+      'sub',
+      subject
+    ])
+    if (!entry.value || entry.value.expiresAt <= Date.now()) {
+      return null
+    }
+    return entry.value.before
+  }
+}
+
+/**
+ * 基于 Map 的内存 DPoP 证明重放缓存
+ * 适用于单进程部署，多实例部署时同一个证明可能在不同实例上各使用一次
+ *
+ * @implements {DPoPReplayCache}
+ */
+export class MemoryDPoPReplayCache implements DPoPReplayCache {
+  private proofs = new Map<string, number>()
+
+  use(jti: string, expiresAt: number): Promise<boolean> {
+    this.removeExpired()
+    if (this.proofs.has(jti)) {
+      return Promise.resolve(false)
+    }
+    this.proofs.set(jti, expiresAt)
+    return Promise.resolve(true)
+  }
+
+  /**
+   * 删除已过期的记录
+   * @private
+   */
+  private removeExpired(): void {
+    const now = Date.now()
+    for (const [jti, expiresAt] of this.proofs.entries()) {
+      if (expiresAt <= now) {
+        this.proofs.delete(jti)
+      }
+    }
+  }
+}
+
+/**
+ * Deno KV DPoP 证明重放缓存配置
+ */
+export interface KVDPoPReplayCacheOptions {
+  /** KV 键前缀，默认为 "jwt_dpop" */
+  prefix?: string
+}
+
+/**
+ * 基于 Deno KV 的 DPoP 证明重放缓存
+ * 通过 atomic().check() 保证同一个证明在所有实例中只能使用一次，记录通过 expireIn 自动删除
+ *
+ * @implements {DPoPReplayCache}
+ */
+export class KVDPoPReplayCache implements DPoPReplayCache {
+  private kv: Deno.Kv
+  private prefix: string
+
+  constructor(kv: Deno.Kv, options: KVDPoPReplayCacheOptions = {}) {
+    this.kv = kv
+    this.prefix = options.prefix || 'jwt_dpop'
+  }
+
+  async use(jti: string, expiresAt: number): Promise<boolean> {
+    const key: Deno.KvKey = [this.prefix, jti]
+    const result = await this.kv
+      .atomic()
+      .check({ key, versionstamp: null })
+      .set(key, expiresAt, {
+        expireIn: Math.max(expiresAt - Date.now(), 1)
+      })
+      .commit()
+    return result.ok
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * JWT 类型模块，定义了与 JWT 相关的类型和接口。
- * 该模块包含 JWT 负载数据、上下文变量、配置和服务接口的类型定义。
+ * 该模块包含 JWT 负载数据、上下文变量、配置、刷新令牌和服务接口的类型定义。
  *
  * @example
  * ```ts
@@ -23,6 +23,11 @@
  * @module
  */
 
+import type { Context, Next } from 'hono'
+import type { CookieOptions } from 'hono/utils/cookie'
+import type { StandardSchemaV1 } from '../state/types.ts'
+import type { JWTKeyRing } from './keyring.ts'
+
 /**
  * JWT 负载数据类型
  */
@@ -33,39 +38,615 @@ export type JWTPayload = {
 
 /**
  * Hono 上下文变量类型，用于存储 JWT 负载数据
+ * @template T JWT 负载数据类型，可选认证时包含 undefined
  */
-export type Variables = {
+export type Variables<T extends JWTPayload | undefined = JWTPayload> = {
   /** JWT 负载数据 */
-  jwtPayload: JWTPayload
+  jwtPayload: T
+}
+
+/**
+ * JWT 认证中间件函数
+ * @template T 上下文中 jwtPayload 的类型，可选认证时包含 undefined
+ */
+export type JWTMiddlewareHandler<
+  T extends JWTPayload | undefined = JWTPayload
+> = (
+  c: Context<{ Variables: Variables<T> }>,
+  next: Next
+) => Promise<Response | void>
+
+/**
+ * JWT 负载数据校验器
+ * 可以是返回校验后数据（校验失败时抛出异常）的函数，也可以是 Standard Schema 对象（Zod、Valibot 等）
+ * @template T 校验通过后的负载数据类型
+ */
+export type JWTPayloadValidator<T extends JWTPayload> =
+  ((payload: JWTPayload) => T | Promise<T>) | StandardSchemaV1<T>
+
+/**
+ * JWT 签名算法
+ * HS 系列为对称算法，签名和验证使用同一个密钥；其余为非对称算法，使用私钥签名、公钥验证
+ */
+export type JWTAlgorithm =
+  | 'HS256'
+  | 'HS384'
+  | 'HS512'
+  | 'RS256'
+  | 'RS384'
+  | 'RS512'
+  | 'PS256'
+  | 'PS384'
+  | 'PS512'
+  | 'ES256'
+  | 'ES384'
+  | 'ES512'
+  | 'EdDSA'
+
+/**
+ * 非对称算法使用的密钥
+ * 可以是 PEM 字符串（私钥为 PKCS#8 格式，公钥为 SPKI 格式）、JWK 对象或 CryptoKey
+ */
+export type JWTKey = string | JsonWebKey | CryptoKey
+
+/**
+ * 带有密钥 ID 的 JWK
+ */
+export type JWK = JsonWebKey & {
+  /** 密钥 ID，对应 JWT 头部的 kid */
+  kid?: string
+}
+
+/**
+ * JWK 集合，即 /.well-known/jwks.json 返回的内容
+ */
+export type JWKSet = {
+  /** 公钥列表 */
+  keys: JWK[]
+}
+
+/**
+ * 密钥环中的密钥
+ */
+export type JWTKeyRingEntry = {
+  /** 密钥 ID，签名时写入 JWT 头部的 kid */
+  kid: string
+  /** 签名算法 */
+  algorithm: JWTAlgorithm
+  /** HS 系列算法使用的密钥，不会出现在 JWKS 中 */
+  secret?: string
+  /** 签名用的私钥，只用于验证的旧密钥可以省略 */
+  privateKey?: JWTKey
+  /** 验证用的公钥，省略时从 privateKey 推导 */
+  publicKey?: JWTKey
+}
+
+/**
+ * 密钥环配置
+ */
+export type JWTKeyRingOptions = {
+  /** 当前用于签名的密钥 ID，默认为第一个可以签名的密钥 */
+  activeKid?: string
+}
+
+/**
+ * JWKS 处理器配置
+ */
+export type JWKSHandlerOptions = {
+  /** Cache-Control 的 max-age（秒），默认为 300 */
+  maxAge?: number
+}
+
+/**
+ * 远程 JWKS 验证器配置
+ */
+export type RemoteJWKSVerifierOptions = {
+  /** JWKS 地址，例如 https://example.auth0.com/.well-known/jwks.json */
+  jwksUri: string
+  /** 允许的签发者（iss），省略时不校验 */
+  issuer?: string | string[]
+  /** 允许的受众（aud），令牌的 aud 包含其中任意一个即可，省略时不校验 */
+  audience?: string | string[]
+  /** 允许的签名算法，默认为所有非对称算法；HS 系列算法始终会被拒绝 */
+  algorithms?: JWTAlgorithm[]
+  /**
+   * 允许的头部 typ，比较时不区分大小写，默认为 JWT 和 at+jwt（RFC 9068 访问令牌）；
+   * 包含 JWT 时也接受没有 typ 的令牌
+   */
+  types?: string[]
+  /** JWKS 缓存有效期(秒)，默认为 10 分钟 */
+  cacheTtl?: number
+  /** 两次请求 JWKS 的最小间隔(秒)，用于限制 kid 未命中时的重新请求，默认为 30 秒 */
+  cooldown?: number
+  /** 校验 exp、nbf 和 iat 时允许的时钟偏差(秒)，默认为 0 */
+  leeway?: number
+  /** 自定义 fetch 函数，默认为全局 fetch，可用于测试或添加超时 */
+  fetch?: typeof fetch
+}
+
+/**
+ * 令牌提取器，从请求中读取令牌
+ * 返回 null 或 undefined 表示该来源没有令牌，中间件会继续尝试下一个提取器
+ */
+export type TokenExtractor = (
+  c: Context
+) => string | null | undefined | Promise<string | null | undefined>
+
+/**
+ * 从请求头提取令牌的配置
+ */
+export type HeaderExtractorOptions = {
+  /** 请求头名称，默认为 Authorization */
+  header?: string
+  /** 认证方案，默认为 Bearer，比较时不区分大小写；为 null 时直接使用整个请求头的值 */
+  scheme?: string | null
+}
+
+/**
+ * 认证失败的原因
+ * - missing：请求中没有令牌
+ * - malformed：令牌格式不正确
+ * - expired：令牌已过期
+ * - bad_signature：签名无效或找不到验证密钥
+ * - revoked：令牌已被吊销
+ * - dpop_proof：DPoP 证明缺失或无效
+ * - invalid：其他原因，如签发者、受众不符或负载校验失败
+ * - insufficient_scope：角色或权限范围不足，仅由 requireRoles 和 requireScopes 返回
+ */
+export type JWTAuthErrorCode =
+  | 'missing'
+  | 'malformed'
+  | 'expired'
+  | 'bad_signature'
+  | 'revoked'
+  | 'dpop_proof'
+  | 'invalid'
+  | 'insufficient_scope'
+
+/**
+ * 传给 onError 的认证失败信息
+ */
+export type JWTAuthFailure = {
+  /** 失败原因 */
+  code: JWTAuthErrorCode
+  /** 面向用户的错误消息，来自 messages 配置 */
+  message: string
+  /** 验证函数抛出的错误，令牌缺失时为 undefined */
+  error?: unknown
+}
+
+/**
+ * 滑动续期配置
+ * @template T JWT 负载数据类型
+ */
+export type JWTRenewalOptions<T extends JWTPayload = JWTPayload> = {
+  /** 用于重新签发令牌的 JWT 服务 */
+  service: JWTService<T>
+  /**
+   * 续期窗口(秒)，令牌剩余有效期不超过该值时重新签发
+   * 默认为当前令牌有效期（exp - iat）的一半
+   */
+  window?: number
+  /**
+   * 会话的最长时长(秒)，从首次认证时间（auth_time）算起，超过后不再续期
+   * 服务配置的 maxTokenAge 同样按 auth_time 计算，因此也会限制续期后的令牌
+   */
+  maxAge?: number
+  /**
+   * 返回新令牌的响应头名称
+   * 未配置 cookie 时默认为 X-Renewed-Token，配置了 cookie 时默认不写入响应头
+   */
+  header?: string
+  /** 写入新令牌的 cookie 名称，通常与 fromCookie 读取的名称相同 */
+  cookie?: string
+  /** 写入 cookie 时的选项，默认为 HttpOnly、Secure、SameSite=Lax、Path=/，有效期与新令牌一致 */
+  cookieOptions?: CookieOptions
+}
+
+/**
+ * DPoP（RFC 9449）配置
+ */
+export type DPoPOptions = {
+  /** 是否要求所有令牌都绑定 DPoP 密钥，默认为 false，即只有包含 cnf.jkt 的令牌需要 DPoP 证明 */
+  required?: boolean
+  /** 允许的证明签名算法，默认为所有非对称算法 */
+  algorithms?: JWTAlgorithm[]
+  /** 证明签发后的最大有效时长(秒)，默认为 60 */
+  maxAge?: number
+  /** 校验证明 iat 时允许的时钟偏差(秒)，默认为 0 */
+  leeway?: number
+  /** 证明重放缓存，默认为内存缓存 */
+  replayCache?: DPoPReplayCache
+  /**
+   * 获取用于校验 htu 的请求地址，默认为 c.req.url
+   * 部署在反向代理之后时，需要返回客户端访问的外部地址
+   */
+  getUrl?: (c: Context) => string
+}
+
+/**
+ * JWT 中间件配置
+ */
+export type JWTMiddlewareOptions<T extends JWTPayload = JWTPayload> = {
+  /**
+   * 令牌提取器，按顺序尝试，使用第一个找到的令牌
+   * 默认为 [fromHeader()]，即只读取 Authorization: Bearer
+   */
+  extractors?: TokenExtractor[]
+  /**
+   * 是否为可选认证，默认为 false
+   * 为 true 时，没有令牌或令牌无效的请求也会继续处理，只有令牌有效时才设置 jwtPayload
+   */
+  optional?: boolean
+  /**
+   * 各失败原因对应的错误消息，用于本地化
+   * 默认令牌缺失时为 "未提供认证令牌"，其他原因为 "无效的认证令牌"
+   */
+  messages?: Partial<Record<JWTAuthErrorCode, string>>
+  /** WWW-Authenticate 响应头中的 realm 参数，省略时不写入 */
+  realm?: string
+  /**
+   * 自定义认证失败的响应
+   * 调用前 WWW-Authenticate 响应头已通过 c.header 设置，使用 c.json 等方法返回的响应会包含该头部
+   * 默认返回 `{ error: message, code }`，权限不足时状态码为 403，其他原因为 401
+   */
+  onError?: (c: Context, reason: JWTAuthFailure) => Response | Promise<Response>
+  /**
+   * 滑动续期配置
+   * 令牌有效且临近过期时重新签发，并通过响应头或 cookie 返回新令牌，使活跃用户保持登录
+   */
+  renew?: JWTRenewalOptions<T>
+  /**
+   * DPoP 配置，true 表示使用默认配置
+   * 启用后绑定了 DPoP 密钥（cnf.jkt）的令牌必须携带有效的 DPoP 证明请求头，
+   * 未配置 extractors 时同时读取 Authorization: DPoP 和 Authorization: Bearer，
+   * 但绑定了 DPoP 密钥的令牌只接受通过 Authorization: DPoP 发送（RFC 9449 第 7.2 节）
+   */
+  dpop?: DPoPOptions | true
+}
+
+/**
+ * 角色和权限范围校验中间件的配置
+ * messages、realm 和 onError 与 createJWTMiddleware 的同名选项相同，
+ * 权限不足时的失败原因为 insufficient_scope，默认消息为 "权限不足"
+ */
+export type JWTAuthorizationOptions = Pick<
+  JWTMiddlewareOptions,
+  'messages' | 'realm' | 'onError'
+> & {
+  /**
+   * 读取的声明路径，支持以点分隔的嵌套路径，例如 "realm_access.roles"
+   * requireRoles 默认为 "role"，requireScopes 默认为 "scope"
+   */
+  claim?: string
+  /**
+   * 匹配方式：any 表示包含任意一个即可，all 表示必须全部包含
+   * requireRoles 默认为 any，requireScopes 默认为 all
+   */
+  match?: 'any' | 'all'
 }
 
 /**
  * JWT 服务配置类型
+ * @template T JWT 负载数据类型
  */
-export type JWTConfig = {
-  /** JWT 密钥 */
-  secret: string
+export type JWTConfig<T extends JWTPayload = JWTPayload> = {
+  /** JWT 密钥，使用 HS 系列算法时必填 */
+  secret?: string
+  /** 签名算法，默认为 HS256 */
+  algorithm?: JWTAlgorithm
+  /**
+   * 签名用的私钥，使用非对称算法时用于签发令牌
+   * 只负责验证令牌的服务可以省略，仅配置 publicKey
+   */
+  privateKey?: JWTKey
+  /**
+   * 验证用的公钥，使用非对称算法时用于验证令牌
+   * 可以传入多个公钥，令牌能被其中任意一个验证即可；
+   * 省略时从 privateKey 推导（PEM 字符串、JWK 对象或可导出的 CryptoKey）
+   */
+  publicKey?: JWTKey | JWTKey[]
+  /**
+   * 密钥环，配置后使用其中的当前密钥签名并写入 kid，按令牌的 kid 选择验证密钥，
+   * 同时忽略 secret、algorithm、privateKey 和 publicKey
+   */
+  keyRing?: JWTKeyRing
+  /** 签发者，sign 时写入 iss，verify 时要求 iss 与之一致 */
+  issuer?: string
+  /** 受众，sign 时写入 aud，verify 时要求 aud 包含其中任意一个 */
+  audience?: string | string[]
+  /** 是否要求令牌包含 sub，默认为 false */
+  requireSubject?: boolean
+  /** 校验 exp、nbf 和 iat 时允许的时钟偏差(秒)，默认为 0 */
+  leeway?: number
+  /**
+   * 访问令牌签发后的最大有效时长(秒)，设置后即使 exp 未到，超过该时长的令牌也会被拒绝
+   * 令牌包含 auth_time（如滑动续期签发的令牌）时从首次认证时间算起
+   */
+  maxTokenAge?: number
   /** 令牌有效期(秒)，默认为 7 天 */
   validityPeriod?: number
+  /** issueTokenPair 签发的访问令牌有效期(秒)，默认为 15 分钟 */
+  accessTokenValidityPeriod?: number
+  /** 刷新令牌有效期(秒)，默认为 30 天，每次刷新后重新计算 */
+  refreshTokenValidityPeriod?: number
+  /** 刷新令牌家族存储，用于轮换和重用检测，默认为内存存储 */
+  refreshTokenStore?: RefreshTokenStore
+  /** 令牌吊销存储，verify 时会检查令牌是否已被吊销，默认为内存存储 */
+  revocationStore?: TokenRevocationStore
+  /** 负载数据校验器，verify 时在签名和声明校验通过后执行 */
+  validate?: JWTPayloadValidator<T>
+}
+
+/**
+ * 会话 CSRF 防护配置（双重提交 cookie）
+ */
+export type JWTSessionCSRFOptions = {
+  /** 保存 CSRF 令牌的 cookie 名称，默认为 aiho_csrf，该 cookie 不是 HttpOnly，前端需要读取它 */
+  cookieName?: string
+  /** 提交 CSRF 令牌的请求头名称，默认为 X-CSRF-Token */
+  headerName?: string
+  /** 提交 CSRF 令牌的表单字段名称，默认为 _csrf */
+  formField?: string
+}
+
+/**
+ * 会话配置
+ * @template T JWT 负载数据类型
+ */
+export type JWTSessionOptions<T extends JWTPayload = JWTPayload> = {
+  /** 保存会话令牌的 cookie 名称，默认为 aiho_session */
+  cookieName?: string
+  /**
+   * 会话 cookie 的选项，默认为 HttpOnly、Secure、SameSite=Lax、Path=/，有效期与令牌一致
+   * path 和 domain 同时用于 CSRF cookie
+   */
+  cookieOptions?: CookieOptions
+  /** CSRF 防护配置，默认启用，设为 false 时关闭 */
+  csrf?: JWTSessionCSRFOptions | false
+  /** 传给 createJWTMiddleware 的其他选项，如 optional、onError 和 renew */
+  middleware?: Omit<JWTMiddlewareOptions<T>, 'extractors'>
+}
+
+/**
+ * 基于 cookie 的 JWT 会话
+ * @template T JWT 负载数据类型
+ * @template P 中间件写入上下文的 jwtPayload 类型，可选认证时包含 undefined
+ */
+export interface JWTSession<
+  T extends JWTPayload = JWTPayload,
+  P extends T | undefined = T
+> {
+  /**
+   * 签发令牌并写入会话 cookie，同时生成新的 CSRF 令牌
+   * @param c Hono 上下文
+   * @param payload JWT 负载数据
+   * @returns 签发的令牌
+   */
+  login(c: Context, payload: T): Promise<string>
+
+  /**
+   * 删除会话 cookie 和 CSRF cookie，JWT 服务支持吊销时同时吊销当前令牌
+   * @param c Hono 上下文
+   */
+  logout(c: Context): Promise<void>
+
+  /**
+   * 获取当前的 CSRF 令牌，不存在时生成并写入 cookie
+   * 服务端渲染的表单可以将其写入隐藏字段
+   * @param c Hono 上下文
+   * @returns CSRF 令牌
+   * @throws {JWTError} 如果未启用 CSRF 防护
+   */
+  csrfToken(c: Context): string
+
+  /**
+   * 会话中间件，从会话 cookie 读取并验证令牌，
+   * 启用 CSRF 防护时校验携带会话 cookie 的非安全方法（POST、PUT、PATCH、DELETE）请求
+   */
+  middleware: JWTMiddlewareHandler<P>
+}
+
+/**
+ * JWE 密钥管理算法
+ * - dir：直接使用共享的内容加密密钥
+ * - RSA-OAEP、RSA-OAEP-256：使用 RSA 公钥包装随机生成的内容加密密钥
+ */
+export type JWEAlgorithm = 'dir' | 'RSA-OAEP' | 'RSA-OAEP-256'
+
+/**
+ * JWE 服务配置
+ * 内容加密算法固定为 A256GCM
+ * @template T JWT 负载数据类型
+ */
+export type JWEConfig<T extends JWTPayload = JWTPayload> = {
+  /** 密钥管理算法，默认为 dir */
+  algorithm?: JWEAlgorithm
+  /**
+   * 内容加密密钥，使用 dir 时必填
+   * 可以是任意长度的字符串（通过 SHA-256 派生 256 位密钥）、kty 为 oct 的 JWK 或 AES-GCM CryptoKey
+   */
+  secret?: string | JsonWebKey | CryptoKey
+  /** 加密用的 RSA 公钥（SPKI PEM、JWK 或 CryptoKey），省略时从 privateKey 推导 */
+  publicKey?: JWTKey
+  /**
+   * 解密用的 RSA 私钥（PKCS#8 PEM、JWK 或 CryptoKey）
+   * 只负责签发令牌的服务可以省略，仅配置 publicKey
+   */
+  privateKey?: JWTKey
+  /** 签发者，sign 时写入 iss，verify 时要求 iss 与之一致 */
+  issuer?: string
+  /** 受众，sign 时写入 aud，verify 时要求 aud 包含其中任意一个 */
+  audience?: string | string[]
+  /** 是否要求令牌包含 sub，默认为 false */
+  requireSubject?: boolean
+  /** 校验 exp、nbf 和 iat 时允许的时钟偏差(秒)，默认为 0 */
+  leeway?: number
+  /** 令牌签发后的最大有效时长(秒)，令牌包含 auth_time 时从首次认证时间算起 */
+  maxTokenAge?: number
+  /** 令牌有效期(秒)，默认为 7 天 */
+  validityPeriod?: number
+  /** 负载数据校验器，verify 时在解密和声明校验通过后执行 */
+  validate?: JWTPayloadValidator<T>
+}
+
+/**
+ * 签发令牌的选项
+ */
+export type JWTSignOptions = {
+  /**
+   * 客户端 DPoP 公钥的 JWK 指纹（RFC 7638），写入 cnf.jkt
+   * 绑定后令牌只能与该密钥签名的 DPoP 证明一起使用，泄露的令牌无法被重放
+   */
+  jkt?: string
+  /** 本次签发的令牌有效期(秒)，默认为服务配置的有效期 */
+  validityPeriod?: number
+}
+
+/**
+ * 访问令牌和刷新令牌对
+ */
+export type TokenPair = {
+  /** 短期访问令牌 */
+  accessToken: string
+  /** 长期刷新令牌 */
+  refreshToken: string
+  /** 访问令牌有效期(秒) */
+  expiresIn: number
+  /** 刷新令牌有效期(秒) */
+  refreshExpiresIn: number
+}
+
+/**
+ * 刷新令牌家族
+ * 同一次登录产生的所有刷新令牌属于同一个家族，只有最新签发的刷新令牌有效
+ */
+export type RefreshTokenFamily = {
+  /** 家族 ID */
+  familyId: string
+  /** 当前有效的刷新令牌 ID（jti） */
+  currentJti: string
+  /** 家族过期时间戳（毫秒） */
+  expiresAt: number
+  /** 是否已被吊销 */
+  revoked: boolean
+}
+
+/**
+ * 刷新令牌家族存储接口
+ * 通过实现该接口，可以将家族信息保存在内存、Deno KV 或其他共享存储中
+ */
+export interface RefreshTokenStore {
+  /**
+   * 保存新的家族
+   * @param family 家族信息
+   */
+  create(family: RefreshTokenFamily): Promise<void>
+
+  /**
+   * 读取家族
+   * @param familyId 家族 ID
+   * @returns 家族信息，不存在或已过期时返回 null
+   */
+  get(familyId: string): Promise<RefreshTokenFamily | null>
+
+  /**
+   * 原子地轮换家族的当前刷新令牌
+   * 仅当家族未被吊销且当前令牌 ID 等于 currentJti 时才更新
+   * @param familyId 家族 ID
+   * @param currentJti 预期的当前令牌 ID
+   * @param nextJti 新令牌 ID
+   * @param expiresAt 新的家族过期时间戳（毫秒）
+   * @returns 是否更新成功
+   */
+  rotate(
+    familyId: string,
+    currentJti: string,
+    nextJti: string,
+    expiresAt: number
+  ): Promise<boolean>
+
+  /**
+   * 吊销家族，此后该家族的所有刷新令牌都无法使用
+   * @param familyId 家族 ID
+   */
+  revoke(familyId: string): Promise<void>
+}
+
+/**
+ * 令牌吊销存储接口
+ * 保存被吊销的令牌 ID（jti）和按主题（sub）吊销的时间点，
+ * 记录在对应令牌全部过期后即可删除
+ */
+export interface TokenRevocationStore {
+  /**
+   * 吊销令牌
+   * @param jti 令牌 ID
+   * @param expiresAt 记录的过期时间戳（毫秒），通常为令牌的过期时间
+   */
+  revoke(jti: string, expiresAt: number): Promise<void>
+
+  /**
+   * 检查令牌是否已被吊销
+   * @param jti 令牌 ID
+   * @returns 是否已被吊销
+   */
+  isRevoked(jti: string): Promise<boolean>
+
+  /**
+   * 吊销主题在指定时间之前签发的所有令牌
+   * 多次调用时保留较晚的时间点
+   * @param subject 主题（sub）
+   * @param before 时间点（毫秒），在此之前签发的令牌都会被拒绝
+   * @param expiresAt 记录的过期时间戳（毫秒），通常为此前签发的令牌的最晚过期时间
+   */
+  revokeSubject(
+    subject: string,
+    before: number,
+    expiresAt: number
+  ): Promise<void>
+
+  /**
+   * 获取主题的吊销时间点
+   * @param subject 主题（sub）
+   * @returns 时间点（毫秒），没有吊销记录时返回 null
+   */
+  getSubjectRevocation(subject: string): Promise<number | null>
+}
+
+/**
+ * DPoP 证明重放缓存接口
+ * 记录已使用的证明 jti，防止截获的证明被重复使用
+ */
+export interface DPoPReplayCache {
+  /**
+   * 记录证明的 jti，该操作需要是原子的
+   * @param jti 证明的 jti
+   * @param expiresAt 记录的过期时间戳（毫秒），此后该证明会因 iat 过旧被拒绝，无需继续记录
+   * @returns 首次使用时返回 true，已使用过时返回 false
+   */
+  use(jti: string, expiresAt: number): Promise<boolean>
 }
 
 /**
  * JWT 服务接口，定义 JWT 的生成、验证和管理功能
+ * @template T JWT 负载数据类型
  */
-export interface JWTService {
+export interface JWTService<T extends JWTPayload = JWTPayload> {
   /**
    * 签发 JWT 令牌
    * @param payload JWT 负载数据
+   * @param options 签发选项
    * @returns 生成的 JWT 令牌
    */
-  sign(payload: JWTPayload): Promise<string>
+  sign(payload: T, options?: JWTSignOptions): Promise<string>
 
   /**
    * 验证 JWT 令牌
    * @param token JWT 令牌字符串
    * @returns JWT 负载数据
    */
-  verify(token: string): Promise<JWTPayload>
+  verify(token: string): Promise<T>
 
   /**
    * 获取令牌的有效期（秒）
@@ -73,3 +654,52 @@ export interface JWTService {
    */
   getValidityPeriod(): number
 }
+
+/**
+ * 支持刷新令牌的 JWT 服务接口
+ * @template T JWT 负载数据类型
+ */
+export interface RefreshableJWTService<
+  T extends JWTPayload = JWTPayload
+> extends JWTService<T> {
+  /**
+   * 签发访问令牌和刷新令牌
+   * @param payload JWT 负载数据
+   * @returns 令牌对
+   */
+  issueTokenPair(payload: T): Promise<TokenPair>
+
+  /**
+   * 使用刷新令牌换取新的令牌对，旧的刷新令牌随即失效
+   * @param refreshToken 刷新令牌
+   * @returns 新的令牌对
+   */
+  refresh(refreshToken: string): Promise<TokenPair>
+
+  /**
+   * 吊销刷新令牌所属的整个家族，通常在用户登出时调用
+   * @param refreshToken 刷新令牌
+   */
+  revokeRefreshToken(refreshToken: string): Promise<void>
+}
+
+/**
+ * 支持吊销令牌的 JWT 服务接口
+ * @template T JWT 负载数据类型
+ */
+export interface RevocableJWTService<
+  T extends JWTPayload = JWTPayload
+> extends JWTService<T> {
+  /**
+   * 吊销令牌，此后 verify 会拒绝该令牌
+   * @param tokenOrJti 令牌字符串或令牌 ID（jti）
+   */
+  revoke(tokenOrJti: string): Promise<void>
+
+  /**
+   * 吊销主题在指定时间之前签发的所有令牌，通常在修改密码或账号被盗时调用
+   * @param subject 主题（sub）
+   * @param before 时间点，默认为当前时间
+   */
+  revokeAllForSubject(subject: string, before?: Date | number): Promise<void>
+}
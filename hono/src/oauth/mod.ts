@@ -1,44 +1,60 @@
 /**
  * OAuth 模块，提供了与第三方 OAuth 认证集成的功能。
- * 该模块导出 GitHub 和 Google OAuth 服务，便于统一导入和使用。
+ * 该模块导出通用的 OAuth 提供商工厂，以及基于它实现的 GitHub 和 Google 预设，便于统一导入和使用。
  *
  * @example
  * ```ts
  * import { Hono } from "hono";
- * import { getGithubRedirectUrl, handleGithubCallback, getGoogleRedirectUrl, handleGoogleCallback } from "@aiho/hono/oauth";
+ * import { createGitHubProvider, createGoogleProvider } from "@aiho/hono/oauth";
  *
  * const app = new Hono();
  *
- * // GitHub OAuth 路由
- * app.get("/auth/github", (c) => getGithubRedirectUrl(c));
- * app.get("/auth/github/callback", async (c) => {
- *   const userInfo = await handleGithubCallback(c);
- *   return c.json(userInfo);
+ * const github = createGitHubProvider({
+ *   clientId: Deno.env.get("GITHUB_CLIENT_ID")!,
+ *   clientSecret: Deno.env.get("GITHUB_CLIENT_SECRET")!,
+ *   redirectUri: "http://localhost:8000/auth/github/callback"
+ * });
+ * const google = createGoogleProvider({
+ *   clientId: Deno.env.get("GOOGLE_CLIENT_ID")!,
+ *   clientSecret: Deno.env.get("GOOGLE_CLIENT_SECRET")!,
+ *   redirectUri: "http://localhost:8000/auth/google/callback"
  * });
  *
+ * // GitHub OAuth 路由
+ * app.get("/auth/github", (c) => github.redirect(c));
+ * app.get("/auth/github/callback", (c) => github.callback(c));
+ *
  * // Google OAuth 路由
- * app.get("/auth/google", (c) => getGoogleRedirectUrl(c));
- * app.get("/auth/google/callback", async (c) => {
- *   const userInfo = await handleGoogleCallback(c);
- *   return c.json(userInfo);
- * });
+ * app.get("/auth/google", (c) => google.redirect(c));
+ * app.get("/auth/google/callback", (c) => google.callback(c));
  * ```
  *
  * @module
  */
 
+export { createOAuthProvider } from './services/provider.ts'
+
 export {
+  createGitHubProvider,
   getGithubRedirectUrl,
   handleGithubCallback
 } from './services/github.ts'
 
 export {
+  createGoogleProvider,
   getGoogleRedirectUrl,
   handleGoogleCallback
 } from './services/google.ts'
 
 export type {
+  OAuthUserInfo,
+  OAuthTokenResponse,
+  OAuthProviderConfig,
+  OAuthPresetConfig,
+  OAuthProvider,
   GitHubEmail,
+  GitHubUser,
+  GoogleUser,
   GetGithubRedirectUrlService,
   HandleGithubCallbackService,
   GetGoogleRedirectUrlService,
@@ -28,10 +28,19 @@
  * @module
  */
 
+/**
+ * 从通用 OAuth 提供商模块导出所有功能
+ *
+ * 包括：
+ * - {@link createOAuthProvider} - 根据端点、权限范围和用户资料映射创建 OAuth 提供商
+ */
+export * from './provider.ts'
+
 /**
  * 从 GitHub OAuth 服务模块导出所有功能
  *
  * 包括：
+ * - {@link createGitHubProvider} - 创建 GitHub OAuth 提供商
  * - {@link getGithubRedirectUrl} - 获取 GitHub OAuth 重定向 URL
  * - {@link handleGithubCallback} - 处理 GitHub OAuth 回调
  *
@@ -50,6 +59,7 @@ export * from './github.ts'
  * 从 Google OAuth 服务模块导出所有功能
  *
  * 包括：
+ * - {@link createGoogleProvider} - 创建 Google OAuth 提供商
  * - {@link getGoogleRedirectUrl} - 获取 Google OAuth 重定向 URL
  * - {@link handleGoogleCallback} - 处理 Google OAuth 回调
  *
@@ -0,0 +1,216 @@
+/**
+ * 通用 OAuth 提供商模块，实现 OAuth 2.0 授权码流程（RFC 6749 第 4.1 节）。
+ * 授权端点、令牌端点、用户信息端点、权限范围和用户资料映射均通过配置传入，
+ * 客户端凭据也显式传入而不是从环境变量读取，GitHub 和 Google 等提供商均基于该模块实现。
+ *
+ * @example
+ * ```ts
+ * import { Hono } from "hono";
+ * import { createOAuthProvider } from "@aiho/hono/oauth";
+ *
+ * const gitlab = createOAuthProvider({
+ *   name: "gitlab",
+ *   clientId: Deno.env.get("GITLAB_CLIENT_ID")!,
+ *   clientSecret: Deno.env.get("GITLAB_CLIENT_SECRET")!,
+ *   redirectUri: "https://your-app.com/auth/gitlab/callback",
+ *   authorizeUrl: "https://gitlab.com/oauth/authorize",
+ *   tokenUrl: "https://gitlab.com/oauth/token",
+ *   userInfoUrl: "https://gitlab.com/api/v4/user",
+ *   scopes: ["read_user"],
+ *   mapProfile: (profile) => ({
+ *     provider: "gitlab",
+ *     id: String(profile.id),
+ *     name: profile.name as string,
+ *     email: (profile.email as string) ?? null,
+ *     picture: (profile.avatar_url as string) ?? null
+ *   })
+ * });
+ *
+ * const app = new Hono();
+ * app.get("/auth/gitlab", (c) => gitlab.redirect(c));
+ * app.get("/auth/gitlab/callback", (c) => gitlab.callback(c));
+ * ```
+ *
+ * @module
+ */
+
+import type { Context } from 'hono'
+import { createStateNamespace } from '../../state/namespace.ts'
+import type {
+  OAuthProvider,
+  OAuthProviderConfig,
+  OAuthTokenResponse,
+  OAuthUserInfo
+} from '../types.ts'
+
+/**
+ * 创建 OAuth 提供商
+ *
+ * 返回的 redirect 创建 state 并重定向到授权端点；callback 原子地消费 state，
+ * 用授权码换取访问令牌，请求用户信息端点并通过 mapProfile 转换为标准化的用户信息，
+ * 最后交给 onSuccess 处理（默认返回 JSON）。
+ *
+ * @template P 用户信息端点返回的资料类型
+ * @param config 提供商配置
+ * @returns OAuth 提供商
+ * @throws {RangeError} 如果提供商名称不合法
+ *
+ * @example 登录成功后签发 JWT
+ * ```ts
+ * import { createOAuthProvider } from "@aiho/hono/oauth";
+ *
+ * const provider = createOAuthProvider({
+ *   // ...端点、凭据和 mapProfile
+ *   onSuccess: async (c, user) => {
+ *     const token = await jwtService.sign({ sub: `${user.provider}:${user.id}` });
+ *     return c.json({ token });
+ *   }
+ * });
+ * ```
+ */
+export const createOAuthProvider = <P = Record<string, unknown>>(
+  config: OAuthProviderConfig<P>
+): OAuthProvider => {
+  const { name } = config
+  const states = createStateNamespace<{ redirectUri: string }>(
+    name,
+    config.state
+  )
+
+  /**
+   * 使用授权码换取访问令牌
+   * @param code 授权码
+   * @returns 令牌端点返回的数据，失败时返回 null
+   */
+  const exchangeCode = async (
+    code: string
+  ): Promise<OAuthTokenResponse | null> => {
+    const tokenResponse = await fetch(config.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json' // GitHub 默认返回表单格式，需要显式要求 JSON
+      },
+      body: new URLSearchParams({
+        code,
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        redirect_uri: config.redirectUri,
+        grant_type: 'authorization_code'
+      })
+    })
+
+    if (!tokenResponse.ok) {
+      const errorText = await tokenResponse.text()
+      console.error(
+        `Failed to exchange code for ${name} token: ${tokenResponse.status} ${errorText}`
+      )
+      return null
+    }
+
+    // GitHub 在授权码无效时也返回 200，错误信息位于响应体的 error 字段
+    const tokenData = await tokenResponse.json()
+    if (!tokenData || typeof tokenData.access_token !== 'string') {
+      console.error(`Access token not found in ${name} response:`, tokenData)
+      return null
+    }
+    return tokenData as OAuthTokenResponse
+  }
+
+  /**
+   * 使用访问令牌获取用户资料
+   * @param accessToken 访问令牌
+   * @returns 用户信息端点返回的资料，失败时返回 null
+   */
+  const fetchProfile = async (accessToken: string): Promise<P | null> => {
+    const userInfoResponse = await fetch(config.userInfoUrl, {
+      headers: {
+        Accept: 'application/json',
+        ...config.userInfoHeaders,
+        Authorization: `Bearer ${accessToken}`
+      }
+    })
+
+    if (!userInfoResponse.ok) {
+      const errorText = await userInfoResponse.text()
+      console.error(
+        `Failed to fetch ${name} user info: ${userInfoResponse.status} ${errorText}`
+      )
+      return null
+    }
+    return (await userInfoResponse.json()) as P
+  }
+
+  return {
+    name,
+
+    redirect: async (c: Context): Promise<Response> => {
+      const params = new URLSearchParams({
+        ...config.authorizeParams,
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri,
+        response_type: 'code',
+        scope: config.scopes.join(' '),
+        state: await states.create(
+          { redirectUri: config.redirectUri },
+          { context: c }
+        )
+      })
+      return c.redirect(`${config.authorizeUrl}?${params.toString()}`)
+    },
+
+    callback: async (c: Context): Promise<Response> => {
+      const code = c.req.query('code')
+      const state = c.req.query('state')
+
+      if (!code) {
+        console.error('Authorization code missing in callback.')
+        return c.json({ error: 'Authorization code missing' }, 400)
+      }
+      if (!state) {
+        console.error('State parameter missing in callback.')
+        return c.json({ error: 'State parameter missing' }, 400)
+      }
+      // 原子地校验并删除 state，防止并发回调重复使用同一个 state
+      if (!(await states.consume(state, { context: c }))) {
+        console.error('Invalid or expired OAuth state.')
+        return c.json({ error: 'Invalid or expired state' }, 401)
+      }
+
+      let tokens: OAuthTokenResponse
+      let user: OAuthUserInfo
+      try {
+        const tokenData = await exchangeCode(code)
+        if (!tokenData) {
+          return c.json(
+            { error: `Failed to obtain access token from ${name}` },
+            500
+          )
+        }
+        tokens = tokenData
+
+        const profile = await fetchProfile(tokens.access_token)
+        if (!profile) {
+          return c.json(
+            { error: `Failed to fetch user info from ${name}` },
+            500
+          )
+        }
+
+        user = await config.mapProfile(profile, tokens)
+      } catch (error) {
+        console.error(`Error during ${name} OAuth callback:`, error)
+        return c.json(
+          { error: 'Internal server error during OAuth callback' },
+          500
+        )
+      }
+
+      // onSuccess 中的错误交给应用自身的错误处理
+      if (config.onSuccess) {
+        return await config.onSuccess(c, user, tokens)
+      }
+      return c.json(user)
+    }
+  }
+}
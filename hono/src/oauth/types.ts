@@ -15,7 +15,7 @@
  * };
  *
  * // 使用 OAuth 服务类型
- * const getRedirectUrl: GetGithubRedirectUrlService = (c) => {
+ * const getRedirectUrl: GetGithubRedirectUrlService = async (c) => {
  *   // 实现重定向逻辑
  *   return c.redirect("https://github.com/login/oauth/authorize?...");
  * };
@@ -25,6 +25,7 @@
  */
 
 import type { Context } from 'hono'
+import type { StateOptions } from '../state/types.ts'
 
 /**
  * GitHub 用户邮箱信息接口
@@ -71,7 +72,7 @@ export interface GitHubEmail {
  * GitHub OAuth 重定向 URL 服务函数类型
  *
  * 该类型定义了生成 GitHub OAuth 授权 URL 并将用户重定向到该 URL 的函数。
- * 函数接收 Hono 上下文对象，返回重定向响应。
+ * 函数接收 Hono 上下文对象，返回重定向响应的 Promise。
  *
  * @example
  * ```ts
@@ -79,17 +80,17 @@ export interface GitHubEmail {
  * import { createState } from "@aiho/hono/state";
  *
  * // 自定义 GitHub 重定向 URL 服务
- * const customGithubRedirectService: GetGithubRedirectUrlService = (c) => {
+ * const customGithubRedirectService: GetGithubRedirectUrlService = async (c) => {
  *   const clientId = "your-github-client-id";
  *   const redirectUri = "https://your-app.com/auth/github/callback";
- *   const state = createState({ from: c.req.query("from") || "/" });
+ *   const state = await createState({ from: c.req.query("from") || "/" });
  *
  *   const url = `https://github.com/login/oauth/authorize?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&state=${state}`;
  *   return c.redirect(url);
  * };
  * ```
  */
-export type GetGithubRedirectUrlService = (c: Context) => Response
+export type GetGithubRedirectUrlService = (c: Context) => Promise<Response>
 
 /**
  * GitHub OAuth 回调处理服务函数类型
@@ -101,7 +102,7 @@ export type GetGithubRedirectUrlService = (c: Context) => Response
  * @example
  * ```ts
  * import type { HandleGithubCallbackService } from "@aiho/hono/oauth/types";
- * import { getStateData, deleteStateData } from "@aiho/hono/state";
+ * import { consumeState } from "@aiho/hono/state";
  *
  * // 自定义 GitHub 回调处理服务
  * const customGithubCallbackService: HandleGithubCallbackService = async (c) => {
@@ -112,17 +113,14 @@ export type GetGithubRedirectUrlService = (c: Context) => Response
  *     return c.json({ error: "授权码缺失" }, 400);
  *   }
  *
- *   // 验证状态并获取关联数据
- *   const stateData = getStateData(state);
+ *   // 验证状态并获取关联数据（同时删除 state，防止重放）
+ *   const stateData = await consumeState(state);
  *   if (!stateData) {
  *     return c.json({ error: "无效的状态" }, 400);
  *   }
  *
  *   // 处理授权码，获取用户信息...
  *
- *   // 清理状态
- *   deleteStateData(state);
- *
  *   // 返回用户信息或设置会话
  *   return c.json({ user: userInfo, redirectTo: stateData.from });
  * };
@@ -134,7 +132,7 @@ export type HandleGithubCallbackService = (c: Context) => Promise<Response>
  * Google OAuth 重定向 URL 服务函数类型
  *
  * 该类型定义了生成 Google OAuth 授权 URL 并将用户重定向到该 URL 的函数。
- * 函数接收 Hono 上下文对象，返回重定向响应。
+ * 函数接收 Hono 上下文对象，返回重定向响应的 Promise。
  *
  * @example
  * ```ts
@@ -142,17 +140,17 @@ export type HandleGithubCallbackService = (c: Context) => Promise<Response>
  * import { createState } from "@aiho/hono/state";
  *
  * // 自定义 Google 重定向 URL 服务
- * const customGoogleRedirectService: GetGoogleRedirectUrlService = (c) => {
+ * const customGoogleRedirectService: GetGoogleRedirectUrlService = async (c) => {
  *   const clientId = "your-google-client-id";
  *   const redirectUri = "https://your-app.com/auth/google/callback";
- *   const state = createState({ from: c.req.query("from") || "/" });
+ *   const state = await createState({ from: c.req.query("from") || "/" });
  *
  *   const url = `https://accounts.google.com/o/oauth2/v2/auth?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}&response_type=code&scope=openid email profile&state=${state}`;
  *   return c.redirect(url);
  * };
  * ```
  */
-export type GetGoogleRedirectUrlService = (c: Context) => Response
+export type GetGoogleRedirectUrlService = (c: Context) => Promise<Response>
 
 /**
  * Google OAuth 回调处理服务函数类型
@@ -164,7 +162,7 @@ export type GetGoogleRedirectUrlService = (c: Context) => Response
  * @example
  * ```ts
  * import type { HandleGoogleCallbackService } from "@aiho/hono/oauth/types";
- * import { getStateData, deleteStateData } from "@aiho/hono/state";
+ * import { consumeState } from "@aiho/hono/state";
  *
  * // 自定义 Google 回调处理服务
  * const customGoogleCallbackService: HandleGoogleCallbackService = async (c) => {
@@ -175,20 +173,188 @@ export type GetGoogleRedirectUrlService = (c: Context) => Response
  *     return c.json({ error: "授权码缺失" }, 400);
  *   }
  *
- *   // 验证状态并获取关联数据
- *   const stateData = getStateData(state);
+ *   // 验证状态并获取关联数据（同时删除 state，防止重放）
+ *   const stateData = await consumeState(state);
  *   if (!stateData) {
  *     return c.json({ error: "无效的状态" }, 400);
  *   }
  *
  *   // 处理授权码，获取用户信息...
  *
- *   // 清理状态
- *   deleteStateData(state);
- *
  *   // 返回用户信息或设置会话
  *   return c.json({ user: userInfo, redirectTo: stateData.from });
  * };
  * ```
  */
 export type HandleGoogleCallbackService = (c: Context) => Promise<Response>
+
+/**
+ * 标准化的 OAuth 用户信息
+ * 各提供商的用户资料通过 mapProfile 转换为该结构
+ */
+export interface OAuthUserInfo {
+  /** 提供商名称，例如 "github" */
+  provider: string
+  /** 用户在提供商中的唯一 ID */
+  id: string
+  /** 显示名称 */
+  name: string | null
+  /** 邮箱地址，提供商未返回时为 null */
+  email: string | null
+  /** 头像 URL */
+  picture: string | null
+}
+
+/**
+ * 令牌端点返回的数据（RFC 6749 第 5.1 节）
+ * 除标准字段外，提供商可能返回 id_token 等额外字段
+ */
+export interface OAuthTokenResponse {
+  /** 访问令牌 */
+  access_token: string
+  /** 令牌类型，通常为 "bearer" */
+  token_type?: string
+  /** 访问令牌的有效期（秒） */
+  expires_in?: number
+  /** 刷新令牌 */
+  refresh_token?: string
+  /** 实际授予的权限范围 */
+  scope?: string
+  /** OpenID Connect 的 ID 令牌 */
+  id_token?: string
+  [key: string]: unknown
+}
+
+/**
+ * OAuth 提供商配置
+ * @template P 用户信息端点返回的资料类型
+ *
+ * @example
+ * ```ts
+ * import type { OAuthProviderConfig } from "@aiho/hono/oauth/types";
+ *
+ * const config: OAuthProviderConfig = {
+ *   name: "gitlab",
+ *   clientId: Deno.env.get("GITLAB_CLIENT_ID")!,
+ *   clientSecret: Deno.env.get("GITLAB_CLIENT_SECRET")!,
+ *   redirectUri: "https://your-app.com/auth/gitlab/callback",
+ *   authorizeUrl: "https://gitlab.com/oauth/authorize",
+ *   tokenUrl: "https://gitlab.com/oauth/token",
+ *   userInfoUrl: "https://gitlab.com/api/v4/user",
+ *   scopes: ["read_user"],
+ *   mapProfile: (profile) => ({
+ *     provider: "gitlab",
+ *     id: String(profile.id),
+ *     name: profile.name as string,
+ *     email: (profile.email as string) ?? null,
+ *     picture: (profile.avatar_url as string) ?? null
+ *   })
+ * };
+ * ```
+ */
+export interface OAuthProviderConfig<P = Record<string, unknown>> {
+  /**
+   * 提供商名称，只能包含字母、数字、下划线和连字符
+   * 同时用作 state 的命名空间，不同提供商创建的 state 不能互相使用
+   */
+  name: string
+  /** OAuth 客户端 ID */
+  clientId: string
+  /** OAuth 客户端密钥 */
+  clientSecret: string
+  /** 回调 URL，必须与在提供商处注册的地址一致 */
+  redirectUri: string
+  /** 授权端点 URL */
+  authorizeUrl: string
+  /** 令牌端点 URL */
+  tokenUrl: string
+  /** 用户信息端点 URL */
+  userInfoUrl: string
+  /** 请求的权限范围 */
+  scopes: string[]
+  /** 授权请求的额外参数，例如 Google 的 access_type 和 prompt */
+  authorizeParams?: Record<string, string>
+  /** 请求用户信息端点时的额外请求头，Authorization 头会自动设置 */
+  userInfoHeaders?: Record<string, string>
+  /**
+   * 将用户信息端点返回的资料转换为标准化的用户信息
+   * 需要额外请求（例如 GitHub 的 /user/emails）时可以使用 tokens 中的访问令牌
+   */
+  mapProfile: (
+    profile: P,
+    tokens: OAuthTokenResponse
+  ) => OAuthUserInfo | Promise<OAuthUserInfo>
+  /**
+   * 登录成功后的处理，例如查找或创建用户并设置会话
+   * 默认返回 JSON 格式的用户信息
+   */
+  onSuccess?: (
+    c: Context,
+    user: OAuthUserInfo,
+    tokens: OAuthTokenResponse
+  ) => Response | Promise<Response>
+  /**
+   * state 操作选项，例如存储、有效期、无状态模式和会话绑定
+   * 命名空间固定为提供商名称，context 自动设置为当前请求
+   */
+  state?: Omit<StateOptions, 'namespace' | 'context'>
+}
+
+/**
+ * 预设提供商的配置
+ * 客户端凭据和回调 URL 必须显式传入，其余字段可覆盖预设值
+ * @template P 用户信息端点返回的资料类型
+ */
+export type OAuthPresetConfig<P = Record<string, unknown>> = Pick<
+  OAuthProviderConfig<P>,
+  'clientId' | 'clientSecret' | 'redirectUri'
+> &
+  Partial<
+    Omit<OAuthProviderConfig<P>, 'clientId' | 'clientSecret' | 'redirectUri'>
+  >
+
+/**
+ * OAuth 提供商，由 createOAuthProvider 创建
+ */
+export interface OAuthProvider {
+  /** 提供商名称 */
+  readonly name: string
+  /** 创建 state 并重定向到授权端点 */
+  redirect(c: Context): Promise<Response>
+  /** 处理授权回调：校验 state、用授权码换取令牌并获取用户信息 */
+  callback(c: Context): Promise<Response>
+}
+
+/**
+ * GitHub 用户信息接口（GET /user 的部分字段）
+ * @see https://docs.github.com/en/rest/users/users#get-the-authenticated-user
+ */
+export interface GitHubUser {
+  /** 用户 ID */
+  id: number
+  /** 用户名 */
+  login: string
+  /** 显示名称，未设置时为 null */
+  name: string | null
+  /** 公开邮箱，未公开时为 null */
+  email: string | null
+  /** 头像 URL */
+  avatar_url: string
+}
+
+/**
+ * Google 用户信息接口（userinfo 端点的部分字段）
+ * @see https://developers.google.com/identity/openid-connect/openid-connect#obtainuserinfo
+ */
+export interface GoogleUser {
+  /** 用户 ID */
+  id: string
+  /** 显示名称 */
+  name?: string
+  /** 邮箱地址 */
+  email?: string
+  /** 邮箱是否已验证 */
+  verified_email?: boolean
+  /** 头像 URL */
+  picture?: string
+}
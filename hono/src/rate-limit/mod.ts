@@ -0,0 +1,40 @@
+/**
+ * 限流模块，提供了按用户限流的中间件和可插拔的计数存储。
+ * 已认证的请求按 JWT 声明计数，未认证的请求按客户端 IP 计数，支持固定窗口和令牌桶算法。
+ *
+ * @example
+ * ```ts
+ * import { Hono } from "hono";
+ * import { createJWTMiddleware } from "@aiho/hono/jwt";
+ * import { createRateLimitMiddleware, KVRateLimitStore } from "@aiho/hono/rate-limit";
+ *
+ * const app = new Hono();
+ * const kv = await Deno.openKv();
+ *
+ * app.use(
+ *   "/api/*",
+ *   jwtMiddleware,
+ *   createRateLimitMiddleware({
+ *     algorithm: "token-bucket",
+ *     limit: 20,
+ *     windowMs: 60 * 1000,
+ *     store: new KVRateLimitStore(kv)
+ *   })
+ * );
+ * ```
+ *
+ * @module
+ */
+
+export { createRateLimitMiddleware } from './services.ts'
+export { MemoryRateLimitStore, KVRateLimitStore } from './stores.ts'
+export type {
+  MemoryRateLimitStoreOptions,
+  KVRateLimitStoreOptions
+} from './stores.ts'
+export type {
+  RateLimitAlgorithm,
+  RateLimitInfo,
+  RateLimitStore,
+  RateLimitOptions
+} from './types.ts'
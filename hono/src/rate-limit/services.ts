@@ -0,0 +1,200 @@
+/**
+ * 限流服务模块，提供了按用户限流的 Hono 中间件。
+ * 已认证的请求按 JWT 声明（默认为 sub）计数，未认证的请求按客户端 IP 计数，
+ * 支持固定窗口和令牌桶两种算法，并写入 RateLimit-* 和 Retry-After 响应头。
+ *
+ * @example
+ * ```ts
+ * import { Hono } from "hono";
+ * import { createJWTMiddleware } from "@aiho/hono/jwt";
+ * import { createRateLimitMiddleware } from "@aiho/hono/rate-limit";
+ *
+ * const app = new Hono();
+ *
+ * // 每个用户每分钟最多 100 次请求
+ * app.use("/api/*", jwtMiddleware, createRateLimitMiddleware({ limit: 100, windowMs: 60 * 1000 }));
+ * ```
+ *
+ * @module
+ */
+
+import type { Context, Next } from 'hono'
+import type { JWTPayload } from '../jwt/types.ts'
+import { getClaim } from '../utils.ts'
+import { MemoryRateLimitStore } from './stores.ts'
+import type { RateLimitInfo, RateLimitOptions } from './types.ts'
+
+/** 固定窗口算法的状态 */
+interface FixedWindowState {
+  /** 窗口内的请求数 */
+  count: number
+  /** 窗口结束的时间戳（毫秒） */
+  resetAt: number
+}
+
+/** 令牌桶算法的状态 */
+interface TokenBucketState {
+  /** 桶中剩余的令牌数 */
+  tokens: number
+  /** 上次更新的时间戳（毫秒） */
+  updatedAt: number
+}
+
+/**
+ * 获取 Deno.serve 提供的客户端连接地址
+ * @param c Hono 上下文
+ * @returns 客户端 IP，无法获取时返回 undefined
+ */
+const getRemoteAddress = (c: Context): string | undefined => {
+  const env = c.env as { remoteAddr?: { hostname?: string } } | undefined
+  return env?.remoteAddr?.hostname
+}
+
+/**
+ * 创建限流中间件
+ *
+ * @param options 限流配置，包括算法、额度、限流键和存储
+ * @returns Hono 中间件函数，超出额度时返回 429 错误响应
+ *
+ * @example 令牌桶
+ * ```ts
+ * import { createRateLimitMiddleware } from "@aiho/hono/rate-limit";
+ *
+ * // 上传接口允许连续上传 5 个文件，之后每 12 秒恢复一次额度
+ * app.post(
+ *   "/upload",
+ *   jwtMiddleware,
+ *   createRateLimitMiddleware({ algorithm: "token-bucket", limit: 5, windowMs: 60 * 1000, prefix: "upload" }),
+ *   (c) => uploadService.handleUpload(c)
+ * );
+ * ```
+ *
+ * @example 自定义限流键和响应
+ * ```ts
+ * import { createRateLimitMiddleware } from "@aiho/hono/rate-limit";
+ *
+ * const rateLimit = createRateLimitMiddleware({
+ *   limit: 1000,
+ *   windowMs: 60 * 60 * 1000,
+ *   claim: "tenant.id", // 按租户限流
+ *   getIP: (c) => c.req.header("X-Forwarded-For")?.split(",")[0].trim(),
+ *   onLimit: (c, info) => c.json({ error: "Too many requests", retryAfter: info.retryAfterMs }, 429)
+ * });
+ * ```
+ */
+export const createRateLimitMiddleware = (
+  options: RateLimitOptions
+): ((c: Context, next: Next) => Promise<Response | void>) => {
+  const algorithm = options.algorithm || 'fixed-window'
+  const { limit, windowMs } = options
+  const claim = options.claim || 'sub'
+  const prefix = options.prefix || 'rate_limit'
+  const store = options.store || new MemoryRateLimitStore()
+  const getIP = options.getIP || getRemoteAddress
+  const headers = options.headers ?? true
+
+  /**
+   * 获取限流键
+   * 依次尝试自定义限流键、JWT 声明和客户端 IP
+   * @param c Hono 上下文
+   * @returns 限流键
+   */
+  const getKey = async (c: Context): Promise<string> => {
+    const custom = options.keyGenerator && (await options.keyGenerator(c))
+    if (custom) {
+      // 与内置的 user、ip 键分开，避免自定义键与之共用计数
+      return `${prefix}:custom:${custom}`
+    }
+    const payload = c.get('jwtPayload') as JWTPayload | undefined
+    const subject = payload ? getClaim(payload, claim) : undefined
+    if (typeof subject === 'string' || typeof subject === 'number') {
+      return `${prefix}:user:${subject}`
+    }
+    return `${prefix}:ip:${getIP(c) || 'unknown'}`
+  }
+
+  /**
+   * 使用固定窗口算法计数
+   * @param key 限流键
+   * @returns 限流结果
+   */
+  const consumeFixedWindow = async (key: string): Promise<RateLimitInfo> => {
+    const now = Date.now()
+    const state = await store.update<FixedWindowState>(
+      key,
+      (current) =>
+        current && current.resetAt > now
+          ? { count: current.count + 1, resetAt: current.resetAt }
+          : { count: 1, resetAt: now + windowMs },
+      windowMs
+    )
+    const allowed = state.count <= limit
+    const resetMs = state.resetAt - now
+    return {
+      key,
+      allowed,
+      limit,
+      remaining: Math.max(limit - state.count, 0),
+      resetMs,
+      retryAfterMs: allowed ? 0 : resetMs
+    }
+  }
+
+  /**
+   * 使用令牌桶算法计数
+   * @param key 限流键
+   * @returns 限流结果
+   */
+  const consumeTokenBucket = async (key: string): Promise<RateLimitInfo> => {
+    const now = Date.now()
+    // 每毫秒补充的令牌数
+    const rate = limit / windowMs
+    let allowed = false
+    const state = await store.update<TokenBucketState>(
+      key,
+      (current) => {
+        const tokens = current
+          ? Math.min(
+              limit,
+              current.tokens + Math.max(now - current.updatedAt, 0) * rate
+            )
+          : limit
+        allowed = tokens >= 1
+        return { tokens: allowed ? tokens - 1 : tokens, updatedAt: now }
+      },
+      windowMs
+    )
+    return {
+      key,
+      allowed,
+      limit,
+      remaining: Math.floor(state.tokens),
+      resetMs: Math.ceil((limit - state.tokens) / rate),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - state.tokens) / rate)
+    }
+  }
+
+  return async (c: Context, next: Next) => {
+    const key = await getKey(c)
+    const info =
+      algorithm === 'token-bucket'
+        ? await consumeTokenBucket(key)
+        : await consumeFixedWindow(key)
+
+    if (headers) {
+      c.header('RateLimit-Policy', `${limit};w=${Math.ceil(windowMs / 1000)}`)
+      c.header('RateLimit-Limit', String(limit))
+      c.header('RateLimit-Remaining', String(info.remaining))
+      c.header('RateLimit-Reset', String(Math.ceil(info.resetMs / 1000)))
+    }
+
+    if (!info.allowed) {
+      c.header('Retry-After', String(Math.ceil(info.retryAfterMs / 1000)))
+      if (options.onLimit) {
+        return await options.onLimit(c, info)
+      }
+      return c.json({ error: '请求过于频繁，请稍后再试' }, 429)
+    }
+    await next()
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * 限流存储模块，提供了 RateLimitStore 接口的内置实现。
+ * 包括默认的内存存储和基于 Deno KV 的共享存储，后者可用于多实例部署。
+ *
+ * @example
+ * ```ts
+ * import { createRateLimitMiddleware } from "@aiho/hono/rate-limit";
+ * import { KVRateLimitStore } from "@aiho/hono/rate-limit/stores";
+ *
+ * // 多个 Deno 实例共享同一个 KV 数据库中的计数
+ * const kv = await Deno.openKv();
+ * const rateLimit = createRateLimitMiddleware({
+ *   limit: 100,
+ *   windowMs: 60 * 1000,
+ *   store: new KVRateLimitStore(kv)
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { RateLimitStore } from './types.ts'
+
+/** 带过期时间的状态 */
+interface RateLimitEntry {
+  value: unknown
+  expiresAt: number
+}
+
+/**
+ * 内存限流存储配置
+ */
+export interface MemoryRateLimitStoreOptions {
+  /**
+   * 最多保存的键数量，默认为 10000
+   * 超出时按写入顺序淘汰最早的键，用于在大量不同 IP 涌入时限制内存占用
+   */
+  maxEntries?: number
+}
+
+/**
+ * 基于 Map 的内存限流存储
+ * 适用于单进程部署，多实例部署时每个实例各自计数
+ *
+ * @implements {RateLimitStore}
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  /** Map 的迭代顺序即写入顺序，每次更新都会将键移到末尾 */
+  private map = new Map<string, RateLimitEntry>()
+  private maxEntries: number
+
+  constructor(options: MemoryRateLimitStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10000
+  }
+
+  update<T>(
+    key: string,
+    updater: (current: T | null) => T,
+    ttl: number
+  ): Promise<T> {
+    const now = Date.now()
+    const entry = this.map.get(key)
+    const current = entry && entry.expiresAt > now ? (entry.value as T) : null
+    const value = updater(current)
+
+    this.map.delete(key)
+    // 超出上限时淘汰最早写入的键
+    while (this.map.size >= this.maxEntries) {
+      const oldest = this.map.keys().next()
+      if (oldest.done) {
+        break
+      }
+      this.map.delete(oldest.value)
+    }
+    this.map.set(key, { value, expiresAt: now + ttl })
+    return Promise.resolve(value)
+  }
+}
+
+/**
+ * Deno KV 限流存储配置
+ */
+export interface KVRateLimitStoreOptions {
+  /** KV 键前缀，默认为 "rate_limit" */
+  prefix?: string
+}
+
+/**
+ * 基于 Deno KV 的限流存储
+ * 所有连接到同一 KV 数据库的实例共享计数，通过 atomic().check() 重试保证并发更新不丢失，
+ * 状态通过 expireIn 自动删除
+ *
+ * @implements {RateLimitStore}
+ */
+export class KVRateLimitStore implements RateLimitStore {
+  private kv: Deno.Kv
+  private prefix: string
+
+  constructor(kv: Deno.Kv, options: KVRateLimitStoreOptions = {}) {
+    this.kv = kv
+    this.prefix = options.prefix || 'rate_limit'
+  }
+
+  async update<T>(
+    key: string,
+    updater: (current: T | null) => T,
+    ttl: number
+  ): Promise<T> {
+    const kvKey: Deno.KvKey = [this.prefix, key]
+    // 并发写入时重试
+    while (true) {
+      const entry = await this.kv.get<RateLimitEntry>(kvKey)
+      const current =
+        entry.value && entry.value.expiresAt > Date.now()
+          ? (entry.value.value as T)
+          : null
+      const value = updater(current)
+      const result = await this.kv
+        .atomic()
+        .check(entry)
+        .set(
+          kvKey,
+          { value, expiresAt: Date.now() + ttl },
+          { expireIn: Math.max(ttl, 1) }
+        )
+        .commit()
+      if (result.ok) {
+        return value
+      }
+    }
+  }
+}
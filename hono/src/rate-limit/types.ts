@@ -0,0 +1,105 @@
+/**
+ * 限流类型模块，定义了与限流相关的类型和接口。
+ * 该模块包含限流配置、限流结果和计数存储接口的类型定义。
+ *
+ * @example
+ * ```ts
+ * import type { RateLimitOptions } from "@aiho/hono/rate-limit/types";
+ *
+ * const options: RateLimitOptions = {
+ *   algorithm: "token-bucket",
+ *   limit: 10,
+ *   windowMs: 60 * 1000
+ * };
+ * ```
+ *
+ * @module
+ */
+
+import type { Context } from 'hono'
+
+/**
+ * 限流算法
+ * - fixed-window：固定窗口，每个窗口内最多 limit 次请求，窗口结束后计数清零
+ * - token-bucket：令牌桶，容量为 limit，每 windowMs 毫秒匀速补满，允许短时间的突发请求
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'token-bucket'
+
+/**
+ * 单次请求的限流结果
+ */
+export interface RateLimitInfo {
+  /** 限流键，如 "rate_limit:user:123" 或 "rate_limit:ip:203.0.113.1" */
+  key: string
+  /** 是否允许请求 */
+  allowed: boolean
+  /** 窗口内允许的请求数（令牌桶的容量） */
+  limit: number
+  /** 剩余可用的请求数 */
+  remaining: number
+  /** 距离额度完全恢复的时间（毫秒） */
+  resetMs: number
+  /** 被拒绝时距离下一次可以请求的时间（毫秒），允许时为 0 */
+  retryAfterMs: number
+}
+
+/**
+ * 限流计数存储接口
+ * 算法的状态通过 update 原子地读取和写入，存储本身不关心状态的结构
+ */
+export interface RateLimitStore {
+  /**
+   * 原子地更新键对应的状态
+   * 实现需要保证同一个键的并发更新不会丢失，例如使用锁或比较并交换重试
+   * @param key 限流键
+   * @param updater 根据当前状态计算新状态，当前状态不存在或已过期时传入 null
+   * @param ttl 新状态的有效期（毫秒），过期后视为不存在
+   * @returns 新状态
+   */
+  update<T>(
+    key: string,
+    updater: (current: T | null) => T,
+    ttl: number
+  ): Promise<T>
+}
+
+/**
+ * 限流中间件配置
+ */
+export interface RateLimitOptions {
+  /** 限流算法，默认为 fixed-window */
+  algorithm?: RateLimitAlgorithm
+  /** 每个窗口允许的请求数，使用令牌桶时为桶的容量 */
+  limit: number
+  /** 窗口长度（毫秒），使用令牌桶时为从空桶补满所需的时间 */
+  windowMs: number
+  /**
+   * 作为限流键的 JWT 声明路径，支持以点分隔的嵌套路径，默认为 sub
+   * 从 c.get("jwtPayload") 读取，未认证或声明不存在时按客户端 IP 限流
+   */
+  claim?: string
+  /**
+   * 自定义限流键，返回 null 或 undefined 时回退到 JWT 声明和客户端 IP
+   * 存储中的键为 `<prefix>:custom:<返回值>`，不会与内置的 `<prefix>:user:…`、`<prefix>:ip:…` 冲突
+   */
+  keyGenerator?: (
+    c: Context
+  ) => string | null | undefined | Promise<string | null | undefined>
+  /**
+   * 获取客户端 IP，默认使用 Deno.serve 提供的连接地址
+   * 部署在反向代理之后时需要从 X-Forwarded-For 等可信的请求头读取
+   */
+  getIP?: (c: Context) => string | null | undefined
+  /** 计数存储，默认为内存存储 */
+  store?: RateLimitStore
+  /** 存储键前缀，多个限流中间件共用一个存储时用于区分，默认为 "rate_limit" */
+  prefix?: string
+  /** 是否写入 RateLimit-* 响应头，默认为 true */
+  headers?: boolean
+  /**
+   * 自定义请求被拒绝时的响应
+   * 调用前 RateLimit-* 和 Retry-After 响应头已通过 c.header 设置
+   * 默认返回 429 和 `{ error: "请求过于频繁，请稍后再试" }`
+   */
+  onLimit?: (c: Context, info: RateLimitInfo) => Response | Promise<Response>
+}
@@ -0,0 +1,84 @@
+/**
+ * 状态绑定模块，提供了将 state 绑定到发起流程的浏览器会话的功能。
+ * 创建 state 时在 HttpOnly cookie 中写入随机绑定值，并随 state 一起保存；
+ * 校验 state 时要求回调请求携带相同的 cookie，防止登录 CSRF 和会话固定攻击。
+ *
+ * 通常不需要直接使用该模块，而是通过 StateOptions.bind 启用绑定。
+ *
+ * @example
+ * ```ts
+ * import { createState, consumeState } from "@aiho/hono/state";
+ *
+ * app.get("/auth/start", async (c) => {
+ *   const state = await createState({ from: "/" }, { bind: true, context: c });
+ *   // ...
+ * });
+ *
+ * app.get("/auth/callback", async (c) => {
+ *   // 其他浏览器拿到回调 URL 也无法完成流程
+ *   const data = await consumeState(c.req.query("state") ?? "", { bind: true, context: c });
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { Context } from 'hono'
+import { getCookie, setCookie } from 'hono/cookie'
+import type { StateBindingConfig } from './types.ts'
+import { timingSafeEqual } from '../utils.ts'
+
+/** 默认的绑定 cookie 名称 */
+const DEFAULT_BINDING_COOKIE = 'aiho_state_binding'
+
+/**
+ * 获取绑定 cookie 名称
+ * @param config 绑定配置，true 表示使用默认配置
+ * @returns cookie 名称
+ */
+const bindingCookieName = (config: StateBindingConfig | true): string =>
+  (config !== true && config.cookieName) || DEFAULT_BINDING_COOKIE
+
+/**
+ * 获取当前浏览器的绑定值，不存在时生成新值并写入 cookie
+ * 同一浏览器的多个 state 共用一个绑定值，因此并行打开的多个登录流程互不影响
+ *
+ * @param config 绑定配置，true 表示使用默认配置
+ * @param c Hono 上下文
+ * @param ttl state 有效期（毫秒），用于刷新 cookie 的有效期
+ * @returns 绑定值
+ */
+export const bindState = (
+  config: StateBindingConfig | true,
+  c: Context,
+  ttl: number
+): string => {
+  const cookieName = bindingCookieName(config)
+  const binding = getCookie(c, cookieName) || crypto.randomUUID()
+  setCookie(c, cookieName, binding, {
+    path: '/',
+    httpOnly: true,
+    secure: true,
+    // OAuth 回调是跨站的顶层导航，Lax 可以保证 cookie 被携带
+    sameSite: 'Lax',
+    maxAge: Math.ceil(ttl / 1000)
+  })
+  return binding
+}
+
+/**
+ * 校验请求携带的绑定 cookie 是否与 state 中保存的绑定值一致
+ *
+ * @param config 绑定配置，未启用时使用默认 cookie 名称
+ * @param c Hono 上下文
+ * @param binding state 中保存的绑定值
+ * @returns 是否一致
+ */
+export const verifyStateBinding = (
+  config: StateBindingConfig | boolean | undefined,
+  c: Context,
+  binding: string
+): boolean => {
+  const cookie = getCookie(c, bindingCookieName(config || true))
+  return !!cookie && timingSafeEqual(cookie, binding)
+}
@@ -0,0 +1,180 @@
+/**
+ * 状态管理内部模块，提供 services.ts 和 namespace.ts 共用的默认存储、命名空间解析和 state 读取逻辑。
+ * 该模块不属于公开 API，未在 deno.json 的 exports 中导出。
+ *
+ * @module
+ */
+
+import type { Context } from 'hono'
+import { verifyStateBinding } from './binding.ts'
+import { getStateLogger, redactState } from './logger.ts'
+import { recordStateEvent } from './metrics.ts'
+import { readStatelessState } from './stateless.ts'
+import { MemoryStateStore } from './stores.ts'
+import type { StateData, StateOptions, StateStore } from './types.ts'
+
+/** 默认状态存储，未在 options 中指定存储时使用 */
+let defaultStateStore: StateStore = new MemoryStateStore()
+
+/** 合法的命名空间名称 */
+export const NAMESPACE_PATTERN: RegExp = /^[A-Za-z0-9_-]+$/
+
+/**
+ * 设置默认状态存储
+ * @param store 状态存储实例
+ */
+export const setDefaultStore = (store: StateStore): void => {
+  defaultStateStore = store
+}
+
+/**
+ * 获取默认状态存储
+ * @returns 当前的默认状态存储
+ */
+export const getDefaultStore = (): StateStore => defaultStateStore
+
+/**
+ * 获取操作使用的存储
+ * @param options state 操作选项
+ * @returns options.store，未指定时为默认存储
+ */
+export const resolveStore = (options: StateOptions): StateStore =>
+  options.store ?? defaultStateStore
+
+/**
+ * 获取无状态模式或会话绑定所需的 Hono 上下文
+ * @param options state 操作选项
+ * @returns Hono 上下文
+ * @throws 如果启用了无状态模式或会话绑定但未提供 context
+ */
+export const requireContext = (options: StateOptions): Context => {
+  if (!options.context) {
+    throw new Error('Stateless or bound state requires options.context')
+  }
+  return options.context
+}
+
+/**
+ * 解析 state 字符串中的命名空间前缀
+ * 带命名空间的 state 格式为 `<命名空间>:<标识>`
+ *
+ * @param state state 字符串
+ * @returns 命名空间（没有前缀时为 undefined）和去掉前缀后的标识
+ */
+export const parseNamespace = (
+  state: string
+): { namespace: string | undefined; token: string } => {
+  const separator = state.indexOf(':')
+  return separator === -1
+    ? { namespace: undefined, token: state }
+    : {
+        namespace: state.slice(0, separator),
+        token: state.slice(separator + 1)
+      }
+}
+
+/**
+ * 从存储或无状态令牌中读取 state
+ * 命名空间与 options.namespace 不一致时直接返回 null，不会访问（或消费）存储中的 state
+ *
+ * @param state state 字符串
+ * @param options state 操作选项
+ * @param consume 是否在读取的同时删除 state
+ * @returns 状态数据，不存在或命名空间不匹配时返回 null
+ */
+export const readState = async <T>(
+  state: string,
+  options: StateOptions,
+  consume: boolean
+): Promise<StateData<T> | null> => {
+  const { namespace, token } = parseNamespace(state)
+  if (namespace !== options.namespace) {
+    return null
+  }
+
+  let stateData: StateData<T> | null
+  if (options.stateless) {
+    stateData = await readStatelessState<T>(
+      token,
+      options.stateless,
+      requireContext(options),
+      consume
+    )
+  } else {
+    const store = resolveStore(options)
+    stateData = consume ? await store.take<T>(state) : await store.get<T>(state)
+  }
+
+  // 前缀本身不受签名保护，以保存的命名空间为准
+  if (stateData && stateData.namespace !== options.namespace) {
+    return null
+  }
+  return stateData
+}
+
+/**
+ * 校验 state 的会话绑定
+ * 未绑定的 state 直接通过；已绑定的 state 要求请求携带一致的绑定 cookie
+ *
+ * @param stateData 状态数据
+ * @param options state 操作选项
+ * @returns 是否通过校验
+ */
+export const checkStateBinding = (
+  stateData: StateData<unknown>,
+  options: StateOptions
+): boolean => {
+  if (stateData.binding === undefined) {
+    return true
+  }
+  // 缺少上下文时无法校验，按不匹配处理
+  return (
+    !!options.context &&
+    verifyStateBinding(options.bind, options.context, stateData.binding)
+  )
+}
+
+/**
+ * 原子地取走 state 并完成绑定和过期校验，但不记录 consumed 事件
+ * 供需要在消费前进一步校验数据的调用方（例如命名空间）使用，校验通过后由调用方记录 consumed，
+ * 从而保证每次消费只计入 consumed 或 invalid 其中之一
+ *
+ * @template T 存储的数据类型
+ * @param state 从外部获取的 state 字符串
+ * @param options state 操作选项
+ * @returns 状态数据，state 无效、绑定不匹配或已过期时返回 null
+ */
+export const takeState = async <T>(
+  state: string,
+  options: StateOptions
+): Promise<StateData<T> | null> => {
+  const stateData = await readState<T>(state, options, true)
+  if (!stateData) {
+    recordStateEvent('invalid')
+    getStateLogger().warn(
+      'Invalid, unknown or already consumed state received',
+      { state: await redactState(state) }
+    )
+    return null
+  }
+
+  // 绑定不匹配时 state 已被取走，泄露的 state 也因此失效
+  if (!checkStateBinding(stateData, options)) {
+    recordStateEvent('invalid')
+    getStateLogger().warn('State binding mismatch', {
+      state: await redactState(state)
+    })
+    return null
+  }
+
+  // 检查是否过期
+  if (Date.now() > stateData.expiresAt) {
+    recordStateEvent('expired')
+    getStateLogger().warn('Expired state received', {
+      state: await redactState(state)
+    })
+    return null
+  }
+
+  return stateData
+}
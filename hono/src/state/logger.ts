@@ -0,0 +1,78 @@
+/**
+ * 状态日志模块，提供了状态管理模块使用的可注入日志记录器。
+ * 默认不输出任何日志；日志中的 state 值会被替换为哈希摘要，避免 CSRF 令牌泄露到日志系统中。
+ *
+ * @example
+ * ```ts
+ * import { setStateLogger } from "@aiho/hono/state";
+ *
+ * // 将状态日志输出到控制台
+ * setStateLogger({
+ *   debug: (message, fields) => console.debug(message, fields),
+ *   info: (message, fields) => console.info(message, fields),
+ *   warn: (message, fields) => console.warn(message, fields),
+ *   error: (message, fields) => console.error(message, fields)
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { StateLogger } from './types.ts'
+
+/** 不输出任何日志的记录器 */
+const silentLogger: StateLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+}
+
+/** 当前使用的日志记录器 */
+let stateLogger: StateLogger = silentLogger
+
+/**
+ * 设置状态管理模块使用的日志记录器
+ * 传入 null 恢复为默认的静默记录器
+ *
+ * @param logger 日志记录器
+ * @returns void
+ *
+ * @example
+ * ```ts
+ * import { setStateLogger } from "@aiho/hono/state";
+ *
+ * setStateLogger({
+ *   debug: () => {},
+ *   info: (message, fields) => console.info(JSON.stringify({ message, ...fields })),
+ *   warn: (message, fields) => console.warn(JSON.stringify({ message, ...fields })),
+ *   error: (message, fields) => console.error(JSON.stringify({ message, ...fields }))
+ * });
+ * ```
+ */
+export const setStateLogger = (logger: StateLogger | null): void => {
+  stateLogger = logger ?? silentLogger
+}
+
+/**
+ * 获取状态管理模块当前使用的日志记录器
+ * @returns 日志记录器
+ */
+export const getStateLogger = (): StateLogger => stateLogger
+
+/**
+ * 对 state 值进行脱敏，返回其 SHA-256 摘要的前 12 位十六进制字符
+ * 同一个 state 的摘要保持一致，可用于在日志中关联同一流程的多条记录
+ *
+ * @param state state 字符串
+ * @returns 脱敏后的标识
+ */
+export const redactState = async (state: string): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(state)
+  )
+  return Array.from(new Uint8Array(digest).slice(0, 6))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
@@ -0,0 +1,100 @@
+/**
+ * 状态指标模块，记录状态管理模块的运行计数。
+ * 计数在进程内累计，覆盖所有存储和无状态模式，可用于观察待完成的 OAuth 流程数量、
+ * 未使用即过期的 state 数量，以及携带未知 state 的回调数量（可能意味着攻击或回调地址配置错误）。
+ *
+ * @example
+ * ```ts
+ * import { getStateStats } from "@aiho/hono/state";
+ *
+ * const stats = await getStateStats();
+ * console.log(stats); // { created: 10, consumed: 8, expired: 1, invalid: 1, size: 1 }
+ * ```
+ *
+ * @module
+ */
+
+import type { StateCounters, StateStats } from './types.ts'
+
+/** 进程内累计的计数 */
+const counters: StateCounters = {
+  created: 0,
+  consumed: 0,
+  expired: 0,
+  invalid: 0
+}
+
+/** Prometheus 指标说明 */
+const COUNTER_HELP: Record<keyof StateCounters, string> = {
+  created: 'Total number of states created.',
+  consumed: 'Total number of states successfully consumed.',
+  expired: 'Total number of states that expired before being used.',
+  invalid:
+    'Total number of lookups with an unknown, consumed or mismatched state.'
+}
+
+/**
+ * 增加计数
+ * @param name 计数名称
+ * @param count 增加的数量，默认为 1
+ * @returns void
+ */
+export const recordStateEvent = (
+  name: keyof StateCounters,
+  count: number = 1
+): void => {
+  counters[name] += count
+}
+
+/**
+ * 获取当前计数的副本
+ * @returns 计数
+ */
+export const getStateCounters = (): StateCounters => ({ ...counters })
+
+/**
+ * 将所有计数重置为 0
+ * @returns void
+ *
+ * @example
+ * ```ts
+ * import { resetStateStats } from "@aiho/hono/state";
+ *
+ * resetStateStats();
+ * ```
+ */
+export const resetStateStats = (): void => {
+  for (const name of Object.keys(counters) as (keyof StateCounters)[]) {
+    counters[name] = 0
+  }
+}
+
+/**
+ * 将统计信息格式化为 Prometheus 文本格式
+ * @param stats 统计信息
+ * @param prefix 指标名称前缀
+ * @returns Prometheus 文本格式的指标
+ */
+export const formatStateMetrics = (
+  stats: StateStats,
+  prefix: string
+): string => {
+  const lines: string[] = []
+  for (const name of Object.keys(COUNTER_HELP) as (keyof StateCounters)[]) {
+    const metric = `${prefix}_${name}_total`
+    lines.push(
+      `# HELP ${metric} ${COUNTER_HELP[name]}`,
+      `# TYPE ${metric} counter`,
+      `${metric} ${stats[name]}`
+    )
+  }
+  if (stats.size !== null) {
+    const metric = `${prefix}_size`
+    lines.push(
+      `# HELP ${metric} Current number of states in the store.`,
+      `# TYPE ${metric} gauge`,
+      `${metric} ${stats.size}`
+    )
+  }
+  return lines.join('\n') + '\n'
+}
@@ -1,26 +1,60 @@
 /**
  * 状态管理模块，提供了用于 OAuth 流程的状态管理功能。
- * 该模块导出状态的创建、获取、删除和清理功能，以确保 OAuth 流程的安全性。
+ * 该模块导出状态的创建、获取、删除和清理功能，以及可插拔的状态存储实现，以确保 OAuth 流程的安全性。
  *
  * @example
  * ```ts
  * import { createState, getStateData, deleteStateData } from "@aiho/hono/state";
  *
  * // 创建状态
- * const state = createState({ redirectUri: "http://localhost:8000/callback" });
+ * const state = await createState({ redirectUri: "http://localhost:8000/callback" });
  *
  * // 获取状态数据
- * const stateData = getStateData<{ redirectUri: string }>(state);
+ * const stateData = await getStateData<{ redirectUri: string }>(state);
  * if (stateData) {
  *   console.log(stateData.redirectUri); // http://localhost:8000/callback
  * }
  *
  * // 删除状态
- * deleteStateData(state);
+ * await deleteStateData(state);
  * ```
  *
  * @module
  */
 
-export { createState, getStateData, deleteStateData, clearExpiredStateData } from './services.ts'
-export type { StateData } from './types.ts'
+export {
+  createState,
+  getStateData,
+  consumeState,
+  deleteStateData,
+  clearExpiredStateData,
+  startStateSweeper,
+  stopStateSweeper,
+  getStateStats,
+  createStateMetricsHandler,
+  setDefaultStateStore,
+  getDefaultStateStore,
+  DEFAULT_STATE_TTL_MS
+} from './services.ts'
+export { MemoryStateStore, KVStateStore } from './stores.ts'
+export { setStateLogger, getStateLogger, redactState } from './logger.ts'
+export { resetStateStats } from './metrics.ts'
+export { createStateNamespace } from './namespace.ts'
+export type { MemoryStateStoreOptions, KVStateStoreOptions } from './stores.ts'
+export type {
+  StateData,
+  StateStore,
+  StateLogger,
+  StateOptions,
+  StatelessStateConfig,
+  StateBindingConfig,
+  StateSweeperOptions,
+  StateCounters,
+  StateStats,
+  StateMetricsHandlerOptions,
+  StandardSchemaV1,
+  StandardSchemaV1Result,
+  StateValidator,
+  StateNamespaceOptions,
+  StateNamespace
+} from './types.ts'
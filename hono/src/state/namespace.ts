@@ -0,0 +1,164 @@
+/**
+ * 状态命名空间模块，提供了按功能隔离 state 的类型化操作。
+ * 每个命名空间的 state 带有独立前缀，不同命名空间之间不能互相读取或消费，
+ * 读取时还可以使用函数或 Standard Schema 对象对数据进行校验。
+ *
+ * @example
+ * ```ts
+ * import { createStateNamespace } from "@aiho/hono/state";
+ *
+ * const githubStates = createStateNamespace<{ redirectUri: string }>("github");
+ *
+ * const state = await githubStates.create({ redirectUri: "/dashboard" });
+ * const data = await githubStates.consume(state); // { redirectUri: "/dashboard" }
+ * ```
+ *
+ * @module
+ */
+
+import { NAMESPACE_PATTERN, takeState } from './internal.ts'
+import { getStateLogger, redactState } from './logger.ts'
+import { recordStateEvent } from './metrics.ts'
+import { createState, deleteStateData, getStateData } from './services.ts'
+import type {
+  StateNamespace,
+  StateNamespaceOptions,
+  StateValidator
+} from './types.ts'
+
+/**
+ * 使用校验器校验数据
+ * @template T 校验通过后的数据类型
+ * @param validate 校验器
+ * @param data 待校验的数据
+ * @returns 校验结果，失败时包含错误信息
+ */
+const runValidator = async <T>(
+  validate: StateValidator<T>,
+  data: unknown
+): Promise<{ ok: true; value: T } | { ok: false; error: unknown }> => {
+  try {
+    if (typeof validate === 'function') {
+      return { ok: true, value: await validate(data) }
+    }
+    const result = await validate['~standard'].validate(data)
+    return result.issues
+      ? { ok: false, error: result.issues.map((issue) => issue.message) }
+      : { ok: true, value: result.value }
+  } catch (error) {
+    // 校验器抛出的异常同样视为校验失败
+    return { ok: false, error }
+  }
+}
+
+/**
+ * 创建 state 命名空间
+ * 命名空间中的 state 以 `<name>:` 为前缀，读取其他命名空间（或没有命名空间）的 state 时返回 null，
+ * 因此 GitHub 流程创建的 state 无法被 Google 流程或其他功能消费
+ *
+ * @template T 存储的数据类型
+ * @param name 命名空间名称，只能包含字母、数字、下划线和连字符
+ * @param options 命名空间配置，包括校验器和默认的 state 操作选项
+ * @returns state 命名空间
+ * @throws {RangeError} 如果命名空间名称不合法
+ *
+ * @example 使用校验函数
+ * ```ts
+ * import { createStateNamespace } from "@aiho/hono/state";
+ *
+ * const magicLinks = createStateNamespace("magic-link", {
+ *   ttl: 15 * 60 * 1000,
+ *   validate: (data) => {
+ *     if (typeof (data as { email?: unknown }).email !== "string") {
+ *       throw new Error("email is required");
+ *     }
+ *     return data as { email: string };
+ *   }
+ * });
+ *
+ * const state = await magicLinks.create({ email: "user@example.com" });
+ * ```
+ *
+ * @example 使用 Standard Schema（例如 Zod）
+ * ```ts
+ * import { z } from "zod";
+ * import { createStateNamespace } from "@aiho/hono/state";
+ *
+ * const devicePairing = createStateNamespace("device", {
+ *   ttl: 60 * 1000,
+ *   validate: z.object({ deviceId: z.string() })
+ * });
+ *
+ * const data = await devicePairing.consume(state); // { deviceId: string } | null
+ * ```
+ */
+export const createStateNamespace = <T>(
+  name: string,
+  options: StateNamespaceOptions<T> = {}
+): StateNamespace<T> => {
+  const { validate, ...defaults } = options
+  if (!NAMESPACE_PATTERN.test(name)) {
+    throw new RangeError(`Invalid state namespace: ${name}`)
+  }
+
+  /**
+   * 校验读取到的数据，校验失败时视为无效 state
+   * @param state state 字符串
+   * @param data 读取到的数据
+   * @returns 校验后的数据或 null
+   */
+  const check = async (state: string, data: T | null): Promise<T | null> => {
+    if (data === null || !validate) {
+      return data
+    }
+    const result = await runValidator(validate, data)
+    if (!result.ok) {
+      recordStateEvent('invalid')
+      getStateLogger().warn('State data failed validation', {
+        state: await redactState(state),
+        namespace: name,
+        error: result.error
+      })
+      return null
+    }
+    return result.value
+  }
+
+  return {
+    name,
+    create: (data, createOptions) =>
+      createState(data, { ...defaults, ...createOptions, namespace: name }),
+    get: async (state, getOptions) =>
+      await check(
+        state,
+        await getStateData<T>(state, {
+          ...defaults,
+          ...getOptions,
+          namespace: name
+        })
+      ),
+    consume: async (state, consumeOptions) => {
+      const stateData = await takeState<T>(state, {
+        ...defaults,
+        ...consumeOptions,
+        namespace: name
+      })
+      if (!stateData) {
+        return null
+      }
+      // 校验失败时 state 已被取走，只计入 invalid 而不计入 consumed
+      const data = await check(state, stateData.data)
+      if (data === null && stateData.data !== null) {
+        return null
+      }
+      recordStateEvent('consumed')
+      getStateLogger().debug('State consumed', {
+        state: await redactState(state),
+        namespace: name
+      })
+      return data
+    },
+    delete: (state, deleteOptions) =>
+      deleteStateData(state, { ...defaults, ...deleteOptions, namespace: name })
+  }
+}
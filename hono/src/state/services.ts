@@ -1,85 +1,265 @@
 /**
  * 状态管理模块，提供了用于 OAuth 流程的状态管理功能。
  * 该模块实现了状态的创建、获取、删除和清理功能，以确保 OAuth 流程的安全性。
+ * state 默认保存在内存中，也可以通过 options.store 或 setDefaultStateStore 使用其他存储。
  *
  * @example
  * ```ts
  * import { createState, getStateData, deleteStateData } from "@aiho/hono/state";
  *
  * // 创建状态
- * const state = createState({ redirectUri: "http://localhost:8000/callback" });
+ * const state = await createState({ redirectUri: "http://localhost:8000/callback" });
  *
  * // 获取状态数据
- * const stateData = getStateData<{ redirectUri: string }>(state);
+ * const stateData = await getStateData<{ redirectUri: string }>(state);
  * if (stateData) {
  *   console.log(stateData.redirectUri); // http://localhost:8000/callback
  * }
  *
  * // 删除状态
- * deleteStateData(state);
+ * await deleteStateData(state);
  * ```
  *
  * @module
  */
 
-import type { StateData } from './types.ts'
+import type { Context } from 'hono'
+import { clearStatelessState, createStatelessState } from './stateless.ts'
+import { bindState } from './binding.ts'
+import {
+  NAMESPACE_PATTERN,
+  checkStateBinding,
+  getDefaultStore,
+  parseNamespace,
+  readState,
+  requireContext,
+  resolveStore,
+  setDefaultStore,
+  takeState
+} from './internal.ts'
+import { getStateLogger, redactState } from './logger.ts'
+import {
+  formatStateMetrics,
+  getStateCounters,
+  recordStateEvent
+} from './metrics.ts'
+import type {
+  StateData,
+  StateMetricsHandlerOptions,
+  StateOptions,
+  StateStats,
+  StateStore,
+  StateSweeperOptions
+} from './types.ts'
 
-/** 使用 Map 存储 state，键是 state 字符串，值是包含数据和创建时间戳的对象 */
-const stateStore = new Map<string, StateData>()
+/** 后台清理定时器，未启动时为 null */
+let sweeperTimer: ReturnType<typeof setInterval> | null = null
 
-/** state 有效期（例如：10分钟，以毫秒为单位） */
-const STATE_EXPIRATION_MS: number = 10 * 60 * 1000
+/** 默认 state 有效期（10分钟，以毫秒为单位），未在 options 中指定 ttl 时使用 */
+export const DEFAULT_STATE_TTL_MS: number = 10 * 60 * 1000
 
 /**
- * 清理过期的 state
- * 该函数会遍历所有存储的 state，并删除那些超过有效期的 state
+ * 设置默认状态存储
+ * 未在 options 中指定 store 的调用（包括 OAuth 服务内部的调用）都会使用该存储
  *
+ * @param store 状态存储实例
  * @returns void
  *
  * @example
  * ```ts
+ * import { setDefaultStateStore } from "@aiho/hono/state";
+ * import { KVStateStore } from "@aiho/hono/state/stores";
+ *
+ * setDefaultStateStore(new KVStateStore(await Deno.openKv()));
+ * ```
+ */
+export const setDefaultStateStore = (store: StateStore): void => {
+  setDefaultStore(store)
+}
+
+/**
+ * 获取默认状态存储
+ * @returns 当前的默认状态存储
+ */
+export const getDefaultStateStore = (): StateStore => getDefaultStore()
+
+/**
+ * 清理过期的 state
+ * 该函数会删除存储中所有已超过各自过期时间（expiresAt）的 state
+ * 无状态模式下没有需要清理的存储，直接返回 0
+ *
+ * @param options state 操作选项，可指定使用的存储
+ * @returns 被清理的 state 数量
+ *
+ * @example
+ * ```ts
  * import { clearExpiredStateData } from "@aiho/hono/state";
  *
  * // 清理过期的 state
- * clearExpiredStateData();
+ * await clearExpiredStateData();
  * ```
  */
-export const clearExpiredStateData = (): void => {
-  const now = Date.now()
-  for (const [state, stateData] of stateStore.entries()) {
-    if (now - stateData.createdAt > STATE_EXPIRATION_MS) {
-      stateStore.delete(state)
-      console.log(`Expired state removed: ${state}`)
-    }
+export const clearExpiredStateData = async (
+  options: StateOptions = {}
+): Promise<number> => {
+  if (options.stateless) {
+    return 0
+  }
+  const store = resolveStore(options)
+  const removed = await store.sweep(Date.now())
+  if (removed > 0) {
+    recordStateEvent('expired', removed)
+    getStateLogger().debug('Expired states removed', { count: removed })
+  }
+  return removed
+}
+
+/**
+ * 启动后台过期 state 清理
+ * 该函数会按固定间隔调用 clearExpiredStateData，弥补仅在 createState 时清理的不足
+ * 定时器不会阻止 Deno 进程退出；重复调用会先停止之前启动的清理
+ *
+ * @param options 清理配置，可指定间隔和存储
+ * @returns void
+ * @throws {RangeError} 如果 intervalMs 不是正数
+ *
+ * @example
+ * ```ts
+ * import { startStateSweeper, stopStateSweeper } from "@aiho/hono/state";
+ *
+ * // 每 30 秒清理一次过期 state
+ * startStateSweeper({ intervalMs: 30 * 1000 });
+ *
+ * // 应用关闭时停止
+ * stopStateSweeper();
+ * ```
+ */
+export const startStateSweeper = (options: StateSweeperOptions = {}): void => {
+  const intervalMs = options.intervalMs ?? 60 * 1000
+  if (!(intervalMs > 0)) {
+    throw new RangeError(`Invalid sweeper interval: ${intervalMs}`)
+  }
+
+  stopStateSweeper()
+  const timer = setInterval(() => {
+    clearExpiredStateData({ store: options.store }).catch((error) => {
+      getStateLogger().error('Failed to sweep expired states', { error })
+    })
+  }, intervalMs)
+  // 不让定时器阻止进程退出
+  Deno.unrefTimer(timer)
+  sweeperTimer = timer
+}
+
+/**
+ * 停止后台过期 state 清理
+ * 如果清理未启动，则不做任何操作
+ *
+ * @returns void
+ *
+ * @example
+ * ```ts
+ * import { stopStateSweeper } from "@aiho/hono/state";
+ *
+ * stopStateSweeper();
+ * ```
+ */
+export const stopStateSweeper = (): void => {
+  if (sweeperTimer !== null) {
+    clearInterval(sweeperTimer)
+    sweeperTimer = null
   }
 }
 
 /**
  * 创建一个新的 state 并存储关联的数据
  * 该函数生成一个唯一的 state 字符串，并将其与提供的数据关联起来
- * 在创建新 state 前，会自动清理过期的 state
+ * 在创建新 state 前，会自动清理过期的 state（存储自身会过期条目时除外，见 StateStore.autoExpires）
+ * 启用无状态模式时，返回的 state 是签名（可选加密）的令牌，nonce 会写入 cookie
+ * 启用会话绑定时，state 只能在携带相同绑定 cookie 的浏览器中使用
  *
  * @template T 存储的数据类型
  * @param data 要与 state 关联的数据
+ * @param options state 操作选项，可指定使用的存储和有效期（ttl，默认 10 分钟）
  * @returns 生成的 state 字符串，可用于后续的验证
+ * @throws {RangeError} 如果 ttl 不是正数或命名空间名称不合法
+ * @throws 如果启用了无状态模式或会话绑定但未提供 context
  *
  * @example
  * ```ts
  * import { createState } from "@aiho/hono/state";
  *
  * // 创建一个包含重定向 URL 的 state
- * const state = createState({ redirectUri: "http://localhost:8000/callback" });
+ * const state = await createState({ redirectUri: "http://localhost:8000/callback" });
  * console.log(state); // 例如："550e8400-e29b-41d4-a716-446655440000"
+ *
+ * // 创建一个 60 秒后过期的魔法链接 state
+ * const magicLinkState = await createState({ email: "user@example.com" }, { ttl: 60 * 1000 });
+ *
+ * // 无状态模式（适用于不共享内存的无服务器部署）
+ * app.get("/auth/start", async (c) => {
+ *   const state = await createState(
+ *     { from: "/" },
+ *     { stateless: { secret: Deno.env.get("STATE_SECRET")! }, context: c }
+ *   );
+ *   // ...
+ * });
  * ```
  */
-export const createState = <T>(data: T): string => {
-  // 定期清理过期 state
-  clearExpiredStateData()
+export const createState = async <T>(
+  data: T,
+  options: StateOptions = {}
+): Promise<string> => {
+  const store = resolveStore(options)
+  const ttl = options.ttl ?? DEFAULT_STATE_TTL_MS
+  if (!(ttl > 0)) {
+    throw new RangeError(`Invalid state TTL: ${ttl}`)
+  }
+
+  const namespace = options.namespace
+  if (namespace !== undefined && !NAMESPACE_PATTERN.test(namespace)) {
+    throw new RangeError(`Invalid state namespace: ${namespace}`)
+  }
 
-  const state = crypto.randomUUID() // 使用 crypto.randomUUID() 生成唯一的 state 字符串
   const createdAt = Date.now()
-  stateStore.set(state, { data, createdAt })
-  console.log(`State created: ${state}`)
+  const stateData: StateData<T> = {
+    data,
+    createdAt,
+    expiresAt: createdAt + ttl
+  }
+  if (namespace !== undefined) {
+    stateData.namespace = namespace
+  }
+  if (options.bind) {
+    stateData.binding = bindState(options.bind, requireContext(options), ttl)
+  }
+
+  // 带命名空间的 state 以 `<命名空间>:` 为前缀
+  const prefix = namespace === undefined ? '' : `${namespace}:`
+  let state: string
+  if (options.stateless) {
+    state =
+      prefix +
+      (await createStatelessState(
+        stateData,
+        options.stateless,
+        requireContext(options)
+      ))
+  } else {
+    // 顺带清理过期 state，能自动过期条目的存储无需遍历
+    if (!store.autoExpires) {
+      await clearExpiredStateData({ store })
+    }
+
+    state = prefix + crypto.randomUUID() // 使用 crypto.randomUUID() 生成唯一的 state 字符串
+    await store.set(state, stateData, ttl)
+  }
+
+  recordStateEvent('created')
+  getStateLogger().debug('State created', {
+    state: await redactState(state),
+    ttl
+  })
   return state
 }
 
@@ -90,6 +270,7 @@ export const createState = <T>(data: T): string => {
  *
  * @template T 存储的数据类型
  * @param state 从外部获取的 state 字符串
+ * @param options state 操作选项，可指定使用的存储
  * @returns 如果 state 有效且未过期，返回存储的数据；否则返回 null
  *
  * @example
@@ -97,36 +278,96 @@ export const createState = <T>(data: T): string => {
  * import { getStateData } from "@aiho/hono/state";
  *
  * // 获取 state 关联的数据
- * const stateData = getStateData<{ redirectUri: string }>("550e8400-e29b-41d4-a716-446655440000");
+ * const stateData = await getStateData<{ redirectUri: string }>("550e8400-e29b-41d4-a716-446655440000");
  * if (stateData) {
  *   console.log(stateData.redirectUri); // 例如："http://localhost:8000/callback"
  * }
  * ```
  */
-export const getStateData = <T>(state: string): T | null => {
-  const stateData = stateStore.get(state) as StateData<T> | undefined
+export const getStateData = async <T>(
+  state: string,
+  options: StateOptions = {}
+): Promise<T | null> => {
+  const store = resolveStore(options)
+  const stateData = await readState<T>(state, options, false)
   if (!stateData) {
-    console.warn(`Invalid or unknown state received: ${state}`)
+    recordStateEvent('invalid')
+    getStateLogger().warn('Invalid or unknown state received', {
+      state: await redactState(state)
+    })
+    return null
+  }
+
+  if (!checkStateBinding(stateData, options)) {
+    recordStateEvent('invalid')
+    getStateLogger().warn('State binding mismatch', {
+      state: await redactState(state)
+    })
     return null
   }
 
   // 检查是否过期
   const now = Date.now()
-  if (now - stateData.createdAt > STATE_EXPIRATION_MS) {
-    console.warn(`Expired state received: ${state}`)
-    stateStore.delete(state) // 过期也删除
+  if (now > stateData.expiresAt) {
+    recordStateEvent('expired')
+    getStateLogger().warn('Expired state received', {
+      state: await redactState(state)
+    })
+    if (!options.stateless) {
+      await store.delete(state) // 过期也删除
+    }
     return null
   }
 
   return stateData.data
 }
 
+/**
+ * 原子地读取并删除 state，返回关联的数据
+ * 与先调用 getStateData 再调用 deleteStateData 不同，该函数保证同一个 state
+ * 只会被成功消费一次，即使多个回调请求并发到达（包括跨实例共享的存储）
+ * 无状态模式下，消费成功后会删除 nonce cookie，使同一令牌无法再次使用
+ * 如果 state 无效、已过期或已被消费，则返回 null
+ *
+ * @template T 存储的数据类型
+ * @param state 从外部获取的 state 字符串
+ * @param options state 操作选项，可指定使用的存储
+ * @returns 如果 state 有效且未过期，返回存储的数据；否则返回 null
+ *
+ * @example
+ * ```ts
+ * import { consumeState } from "@aiho/hono/state";
+ *
+ * app.get("/auth/callback", async (c) => {
+ *   const stateData = await consumeState<{ redirectUri: string }>(c.req.query("state") ?? "");
+ *   if (!stateData) {
+ *     return c.json({ error: "Invalid or expired state" }, 401);
+ *   }
+ *   // state 已被删除，无需再调用 deleteStateData
+ * });
+ * ```
+ */
+export const consumeState = async <T>(
+  state: string,
+  options: StateOptions = {}
+): Promise<T | null> => {
+  const stateData = await takeState<T>(state, options)
+  if (!stateData) {
+    return null
+  }
+  recordStateEvent('consumed')
+  getStateLogger().debug('State consumed', { state: await redactState(state) })
+  return stateData.data
+}
+
 /**
  * 删除一个已使用的 state
  * 该函数从存储中删除指定的 state 及其关联数据
  * 通常在成功验证 state 后调用，以防止重放攻击
+ * 无状态模式下会删除 nonce cookie，使当前浏览器中的 state 令牌失效
  *
  * @param state 要删除的 state 字符串
+ * @param options state 操作选项，可指定使用的存储
  * @returns void
  *
  * @example
@@ -134,13 +375,81 @@ export const getStateData = <T>(state: string): T | null => {
  * import { deleteStateData } from "@aiho/hono/state";
  *
  * // 删除已使用的 state
- * deleteStateData("550e8400-e29b-41d4-a716-446655440000");
+ * await deleteStateData("550e8400-e29b-41d4-a716-446655440000");
  * ```
  */
-export const deleteStateData = (state: string): void => {
-  if (stateStore.delete(state)) {
-    console.log(`State deleted: ${state}`)
+export const deleteStateData = async (
+  state: string,
+  options: StateOptions = {}
+): Promise<void> => {
+  const store = resolveStore(options)
+  const deleted =
+    parseNamespace(state).namespace !== options.namespace
+      ? false
+      : options.stateless
+        ? clearStatelessState(
+            parseNamespace(state).token,
+            options.stateless,
+            requireContext(options)
+          )
+        : await store.delete(state)
+  if (deleted) {
+    getStateLogger().debug('State deleted', { state: await redactState(state) })
   } else {
-    console.warn(`Attempted to delete non-existent state: ${state}`)
+    getStateLogger().warn('Attempted to delete non-existent state', {
+      state: await redactState(state)
+    })
+  }
+}
+
+/**
+ * 获取状态管理模块的统计信息
+ * 计数在进程内累计；size 为指定存储中当前的 state 数量
+ *
+ * @param options state 操作选项，可指定统计 size 的存储
+ * @returns 统计信息，无状态模式下 size 为 null
+ *
+ * @example
+ * ```ts
+ * import { getStateStats } from "@aiho/hono/state";
+ *
+ * const { created, consumed, expired, invalid, size } = await getStateStats();
+ * console.log(`${size} 个 OAuth 流程等待完成，${invalid} 次未知 state 回调`);
+ * ```
+ */
+export const getStateStats = async (
+  options: Pick<StateOptions, 'store' | 'stateless'> = {}
+): Promise<StateStats> => {
+  const store = resolveStore(options)
+  const size = options.stateless ? null : await store.size()
+  return { ...getStateCounters(), size }
+}
+
+/**
+ * 创建以 Prometheus 文本格式输出状态统计信息的路由处理器
+ *
+ * @param options 处理器配置，可指定存储和指标名称前缀
+ * @returns Hono 路由处理器
+ *
+ * @example
+ * ```ts
+ * import { Hono } from "hono";
+ * import { createStateMetricsHandler } from "@aiho/hono/state";
+ *
+ * const app = new Hono();
+ *
+ * // 输出 aiho_state_created_total、aiho_state_size 等指标
+ * app.get("/metrics/state", createStateMetricsHandler());
+ * ```
+ */
+export const createStateMetricsHandler = (
+  options: StateMetricsHandlerOptions = {}
+): ((c: Context) => Promise<Response>) => {
+  const prefix = options.prefix || 'aiho_state'
+  return async (c: Context) => {
+    const stats = await getStateStats(options)
+    return c.text(formatStateMetrics(stats, prefix), 200, {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8'
+    })
   }
 }
@@ -0,0 +1,265 @@
+/**
+ * 无状态 state 模块，提供了将 state 数据编码为签名（可选加密）令牌的功能。
+ * 适用于 Deno Deploy 等多个隔离实例之间不共享内存的无服务器部署。
+ * 令牌中包含数据、nonce 和过期时间，nonce 同时写入一个短期 cookie，
+ * 以保证每个 state 只能在发起流程的浏览器中使用一次。
+ * 每个令牌使用独立的 cookie（名称带有令牌签名的前缀），同一浏览器可以并行进行多个流程。
+ *
+ * 通常不需要直接使用该模块，而是通过 StateOptions.stateless 启用无状态模式。
+ *
+ * @example
+ * ```ts
+ * import { createState, consumeState } from "@aiho/hono/state";
+ *
+ * const stateless = { secret: Deno.env.get("STATE_SECRET")!, encrypt: true };
+ *
+ * app.get("/auth/start", async (c) => {
+ *   const state = await createState({ from: "/" }, { stateless, context: c });
+ *   return c.redirect(`https://provider.example.com/authorize?state=${state}`);
+ * });
+ *
+ * app.get("/auth/callback", async (c) => {
+ *   const data = await consumeState<{ from: string }>(c.req.query("state") ?? "", { stateless, context: c });
+ *   // ...
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { Context } from 'hono'
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie'
+import type { StateData, StatelessStateConfig } from './types.ts'
+import { fromBase64Url, timingSafeEqual, toBase64Url } from '../utils.ts'
+
+/** 默认的 nonce cookie 名称前缀 */
+const DEFAULT_NONCE_COOKIE = 'aiho_state_nonce'
+
+/** cookie 名称中使用的签名长度（base64url 字符，96 位） */
+const NONCE_COOKIE_SUFFIX_LENGTH = 16
+
+/** 令牌中编码的内容 */
+interface StatelessStatePayload<T> extends StateData<T> {
+  /** 与 nonce cookie 对应的随机值 */
+  nonce: string
+}
+
+/** 由密钥派生出的签名和加密密钥 */
+interface DerivedKeys {
+  sign: CryptoKey
+  encrypt: CryptoKey
+}
+
+/** 按密钥缓存派生结果，避免每次请求重复派生 */
+const derivedKeysCache = new Map<string, Promise<DerivedKeys>>()
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/**
+ * 使用 HKDF 从配置的密钥派生签名密钥和加密密钥
+ * @param secret 配置的密钥
+ * @returns 派生的密钥
+ */
+const deriveKeys = (secret: string): Promise<DerivedKeys> => {
+  let keys = derivedKeysCache.get(secret)
+  if (!keys) {
+    keys = (async () => {
+      const master = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        'HKDF',
+        false,
+        ['deriveKey']
+      )
+      const hkdf = (info: string) => ({
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(),
+        info: encoder.encode(info)
+      })
+      const sign = await crypto.subtle.deriveKey(
+        hkdf('aiho-state-sign'),
+        master,
+        { name: 'HMAC', hash: 'SHA-256', length: 256 },
+        false,
+        ['sign', 'verify']
+      )
+      const encrypt = await crypto.subtle.deriveKey(
+        hkdf('aiho-state-encrypt'),
+        master,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      )
+      return { sign, encrypt }
+    })()
+    derivedKeysCache.set(secret, keys)
+  }
+  return keys
+}
+
+/**
+ * 获取令牌对应的 nonce cookie 名称
+ * 名称为 `<前缀>_<签名前 16 个字符>`，不同令牌的 nonce 互不覆盖
+ * @param config 无状态模式配置
+ * @param signature 令牌的 base64url 签名
+ * @returns cookie 名称
+ */
+const nonceCookieName = (
+  config: StatelessStateConfig,
+  signature: string
+): string =>
+  `${config.cookieName || DEFAULT_NONCE_COOKIE}_${signature.slice(
+    0,
+    NONCE_COOKIE_SUFFIX_LENGTH
+  )}`
+
+/**
+ * 创建无状态 state 令牌，并将 nonce 写入 cookie
+ * 令牌格式为 `<模式>.<内容>.<签名>`，模式为 "s"（仅签名）或 "e"（加密后签名）
+ *
+ * @template T 存储的数据类型
+ * @param stateData 要编码的状态数据
+ * @param config 无状态模式配置
+ * @param c Hono 上下文，用于设置 nonce cookie
+ * @returns state 令牌
+ */
+export const createStatelessState = async <T>(
+  stateData: StateData<T>,
+  config: StatelessStateConfig,
+  c: Context
+): Promise<string> => {
+  const keys = await deriveKeys(config.secret)
+  const nonce = crypto.randomUUID()
+  const payload: StatelessStatePayload<T> = { ...stateData, nonce }
+  const plaintext = encoder.encode(JSON.stringify(payload))
+
+  let mode = 's'
+  let body = toBase64Url(plaintext)
+  if (config.encrypt) {
+    mode = 'e'
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const ciphertext = new Uint8Array(
+      await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        keys.encrypt,
+        plaintext
+      )
+    )
+    body = `${toBase64Url(iv)}~${toBase64Url(ciphertext)}`
+  }
+
+  const signed = `${mode}.${body}`
+  const signature = toBase64Url(
+    new Uint8Array(
+      await crypto.subtle.sign('HMAC', keys.sign, encoder.encode(signed))
+    )
+  )
+
+  setCookie(c, nonceCookieName(config, signature), nonce, {
+    path: '/',
+    httpOnly: true,
+    secure: true,
+    // OAuth 回调是跨站的顶层导航，Lax 可以保证 cookie 被携带
+    sameSite: 'Lax',
+    maxAge: Math.ceil((stateData.expiresAt - stateData.createdAt) / 1000)
+  })
+
+  return `${signed}.${signature}`
+}
+
+/**
+ * 校验无状态 state 令牌并返回其中的状态数据
+ * 只有签名有效、且令牌中的 nonce 与请求携带的 cookie 一致时才返回数据；
+ * 过期判断由调用方根据返回的 expiresAt 完成
+ *
+ * @template T 存储的数据类型
+ * @param token state 令牌
+ * @param config 无状态模式配置
+ * @param c Hono 上下文，用于读取（以及消费时删除）nonce cookie
+ * @param consume 是否在校验成功后删除 nonce cookie，使令牌无法再次使用
+ * @returns 状态数据，令牌无效时返回 null
+ */
+export const readStatelessState = async <T>(
+  token: string,
+  config: StatelessStateConfig,
+  c: Context,
+  consume: boolean
+): Promise<StateData<T> | null> => {
+  const parts = token.split('.')
+  if (parts.length !== 3 || (parts[0] !== 's' && parts[0] !== 'e')) {
+    return null
+  }
+  const [mode, body, signature] = parts
+
+  try {
+    const keys = await deriveKeys(config.secret)
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      keys.sign,
+      fromBase64Url(signature),
+      encoder.encode(`${mode}.${body}`)
+    )
+    if (!valid) {
+      return null
+    }
+
+    let plaintext: Uint8Array
+    if (mode === 'e') {
+      const [iv, ciphertext] = body.split('~')
+      plaintext = new Uint8Array(
+        await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: fromBase64Url(iv) },
+          keys.encrypt,
+          fromBase64Url(ciphertext)
+        )
+      )
+    } else {
+      plaintext = fromBase64Url(body)
+    }
+
+    const { nonce, ...stateData } = JSON.parse(
+      decoder.decode(plaintext)
+    ) as StatelessStatePayload<T>
+
+    // nonce cookie 缺失或不一致，说明令牌已被使用或来自其他浏览器
+    const cookieName = nonceCookieName(config, signature)
+    const cookieNonce = getCookie(c, cookieName)
+    if (!cookieNonce || !timingSafeEqual(cookieNonce, nonce)) {
+      return null
+    }
+
+    if (consume) {
+      deleteCookie(c, cookieName, { path: '/', secure: true })
+    }
+    return stateData
+  } catch (_) {
+    // 令牌内容无法解码或解密
+    return null
+  }
+}
+
+/**
+ * 删除令牌对应的 nonce cookie，使当前浏览器中的该无状态 state 失效
+ * @param token state 令牌
+ * @param config 无状态模式配置
+ * @param c Hono 上下文
+ * @returns 如果 cookie 存在并已删除返回 true，否则返回 false
+ */
+export const clearStatelessState = (
+  token: string,
+  config: StatelessStateConfig,
+  c: Context
+): boolean => {
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    return false
+  }
+  return (
+    deleteCookie(c, nonceCookieName(config, parts[2]), {
+      path: '/',
+      secure: true
+    }) !== undefined
+  )
+}
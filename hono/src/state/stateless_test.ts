@@ -0,0 +1,129 @@
+import { assertEquals } from '@std/assert'
+import { Hono } from 'hono'
+import { consumeState, createState, deleteStateData } from './services.ts'
+import type { StatelessStateConfig } from './types.ts'
+
+const stateless: StatelessStateConfig = { secret: 'test-secret'.repeat(4) }
+
+/**
+ * 创建测试应用，/start 创建 state，/callback 消费 state，/cancel 删除 state
+ * @returns Hono 应用
+ */
+const createApp = (): Hono => {
+  const app = new Hono()
+  app.get('/start', async (c) =>
+    c.text(
+      await createState(
+        { flow: c.req.query('flow') },
+        { stateless, context: c }
+      )
+    )
+  )
+  app.get('/callback', async (c) =>
+    c.json(
+      await consumeState<{ flow?: string }>(c.req.query('state') ?? '', {
+        stateless,
+        context: c
+      })
+    )
+  )
+  app.get('/cancel', async (c) => {
+    await deleteStateData(c.req.query('state') ?? '', {
+      stateless,
+      context: c
+    })
+    return c.body(null, 204)
+  })
+  return app
+}
+
+/**
+ * 模拟浏览器的 cookie 存储，按响应的 Set-Cookie 更新
+ */
+class CookieJar {
+  private cookies = new Map<string, string>()
+
+  /**
+   * 发送请求，携带当前 cookie 并保存响应设置的 cookie
+   * @param app Hono 应用
+   * @param path 请求路径
+   * @returns 响应
+   */
+  async request(app: Hono, path: string): Promise<Response> {
+    const cookie = [...this.cookies]
+      .map(([name, value]) => `${name}=${value}`)
+      .join('; ')
+    const response = await app.request(path, { headers: { cookie } })
+    for (const header of response.headers.getSetCookie()) {
+      const [pair, ...attributes] = header.split(';')
+      const [name, value] = pair.split('=')
+      if (attributes.some((attribute) => attribute.trim() === 'Max-Age=0')) {
+        this.cookies.delete(name)
+      } else {
+        this.cookies.set(name, value)
+      }
+    }
+    return response
+  }
+
+  /** 当前保存的 cookie 数量 */
+  get size(): number {
+    return this.cookies.size
+  }
+}
+
+Deno.test(
+  'stateless states started in parallel can all be consumed',
+  async () => {
+    const app = createApp()
+    const browser = new CookieJar()
+
+    const github = await (
+      await browser.request(app, '/start?flow=github')
+    ).text()
+    const google = await (
+      await browser.request(app, '/start?flow=google')
+    ).text()
+    assertEquals(browser.size, 2)
+
+    const first = await browser.request(app, `/callback?state=${github}`)
+    assertEquals(await first.json(), { flow: 'github' })
+    const second = await browser.request(app, `/callback?state=${google}`)
+    assertEquals(await second.json(), { flow: 'google' })
+    assertEquals(browser.size, 0)
+  }
+)
+
+Deno.test('stateless states can only be consumed once', async () => {
+  const app = createApp()
+  const browser = new CookieJar()
+  const state = await (await browser.request(app, '/start?flow=a')).text()
+
+  await browser.request(app, `/callback?state=${state}`)
+  const replay = await browser.request(app, `/callback?state=${state}`)
+  assertEquals(await replay.json(), null)
+})
+
+Deno.test('deleting a stateless state leaves other flows intact', async () => {
+  const app = createApp()
+  const browser = new CookieJar()
+  const cancelled = await (await browser.request(app, '/start?flow=a')).text()
+  const kept = await (await browser.request(app, '/start?flow=b')).text()
+
+  await browser.request(app, `/cancel?state=${cancelled}`)
+  const first = await browser.request(app, `/callback?state=${cancelled}`)
+  assertEquals(await first.json(), null)
+  const second = await browser.request(app, `/callback?state=${kept}`)
+  assertEquals(await second.json(), { flow: 'b' })
+})
+
+Deno.test('stateless states are rejected in another browser', async () => {
+  const app = createApp()
+  const state = await (await new CookieJar().request(app, '/start')).text()
+
+  const response = await new CookieJar().request(
+    app,
+    `/callback?state=${state}`
+  )
+  assertEquals(await response.json(), null)
+})
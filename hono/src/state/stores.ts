@@ -0,0 +1,213 @@
+/**
+ * 状态存储模块，提供了 StateStore 接口的内置实现。
+ * 包括默认的内存存储和基于 Deno KV 的共享存储，后者可用于多实例部署。
+ *
+ * @example
+ * ```ts
+ * import { createState, setDefaultStateStore } from "@aiho/hono/state";
+ * import { KVStateStore } from "@aiho/hono/state/stores";
+ *
+ * // 多个 Deno 实例共享同一个 KV 数据库
+ * const kv = await Deno.openKv();
+ * setDefaultStateStore(new KVStateStore(kv));
+ *
+ * const state = await createState({ redirectUri: "http://localhost:8000/callback" });
+ * ```
+ *
+ * @module
+ */
+
+import type { StateData, StateStore } from './types.ts'
+
+/**
+ * 内存状态存储配置
+ */
+export interface MemoryStateStoreOptions {
+  /**
+   * 最多保存的 state 数量，默认为 10000
+   * 超出时按创建顺序淘汰最早的 state，用于在大量请求涌入时限制内存占用
+   * 设置为 Infinity 可关闭该限制
+   */
+  maxEntries?: number
+}
+
+/**
+ * 基于 Map 的内存状态存储
+ * 适用于单进程部署，进程重启后所有 state 都会丢失
+ * 条目数量受 maxEntries 限制，超出时淘汰最早创建的 state
+ *
+ * @implements {StateStore}
+ *
+ * @example
+ * ```ts
+ * import { createState } from "@aiho/hono/state";
+ * import { MemoryStateStore } from "@aiho/hono/state/stores";
+ *
+ * const store = new MemoryStateStore({ maxEntries: 5000 });
+ * const state = await createState({ from: "/" }, { store });
+ * ```
+ */
+export class MemoryStateStore implements StateStore {
+  /** 键是 state 字符串，值是包含数据和创建时间戳的对象，Map 的迭代顺序即插入顺序 */
+  private map = new Map<string, StateData>()
+  private maxEntries: number
+
+  constructor(options: MemoryStateStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10000
+  }
+
+  get<T>(state: string): Promise<StateData<T> | null> {
+    const stateData = this.map.get(state) as StateData<T> | undefined
+    return Promise.resolve(stateData ?? null)
+  }
+
+  set<T>(state: string, stateData: StateData<T>, _ttl: number): Promise<void> {
+    this.map.delete(state)
+    // 超出上限时淘汰最早插入的条目
+    while (this.map.size >= this.maxEntries) {
+      const oldest = this.map.keys().next()
+      if (oldest.done) {
+        break
+      }
+      this.map.delete(oldest.value)
+    }
+    this.map.set(state, stateData)
+    return Promise.resolve()
+  }
+
+  delete(state: string): Promise<boolean> {
+    return Promise.resolve(this.map.delete(state))
+  }
+
+  take<T>(state: string): Promise<StateData<T> | null> {
+    // 读取和删除之间没有 await，在单线程中天然是原子的
+    const stateData = this.map.get(state) as StateData<T> | undefined
+    this.map.delete(state)
+    return Promise.resolve(stateData ?? null)
+  }
+
+  sweep(now: number): Promise<number> {
+    let removed = 0
+    for (const [state, stateData] of this.map.entries()) {
+      if (stateData.expiresAt < now) {
+        this.map.delete(state)
+        removed++
+      }
+    }
+    return Promise.resolve(removed)
+  }
+
+  size(): Promise<number> {
+    return Promise.resolve(this.map.size)
+  }
+}
+
+/**
+ * Deno KV 状态存储配置
+ */
+export interface KVStateStoreOptions {
+  /** KV 键前缀，默认为 "oauth_state" */
+  prefix?: string
+}
+
+/**
+ * 基于 Deno KV 的状态存储
+ * 所有连接到同一 KV 数据库的实例共享 state，适用于负载均衡后的多实例部署
+ * 写入时会设置 expireIn，由 KV 自动删除过期条目
+ *
+ * @implements {StateStore}
+ *
+ * @example
+ * ```ts
+ * import { createState, getStateData } from "@aiho/hono/state";
+ * import { KVStateStore } from "@aiho/hono/state/stores";
+ *
+ * const kv = await Deno.openKv();
+ * const store = new KVStateStore(kv, { prefix: "my_app_state" });
+ *
+ * const state = await createState({ from: "/" }, { store });
+ * const data = await getStateData<{ from: string }>(state, { store });
+ * ```
+ */
+export class KVStateStore implements StateStore {
+  /** 条目通过 expireIn 自动过期，createState 无需遍历清理 */
+  readonly autoExpires = true
+  private kv: Deno.Kv
+  private prefix: string
+
+  constructor(kv: Deno.Kv, options: KVStateStoreOptions = {}) {
+    this.kv = kv
+    this.prefix = options.prefix || 'oauth_state'
+  }
+
+  /**
+   * 获取 state 对应的 KV 键
+   * @param state state 字符串
+   * @returns KV 键
+   * @private
+   */
+  private key(state: string): Deno.KvKey {
+    return [this.prefix, state]
+  }
+
+  async get<T>(state: string): Promise<StateData<T> | null> {
+    const entry = await this.kv.get<StateData<T>>(this.key(state))
+    return entry.value
+  }
+
+  async set<T>(
+    state: string,
+    stateData: StateData<T>,
+    ttl: number
+  ): Promise<void> {
+    await this.kv.set(this.key(state), stateData, { expireIn: ttl })
+  }
+
+  async delete(state: string): Promise<boolean> {
+    const entry = await this.kv.get(this.key(state))
+    if (entry.versionstamp === null) {
+      return false
+    }
+    await this.kv.delete(this.key(state))
+    return true
+  }
+
+  async take<T>(state: string): Promise<StateData<T> | null> {
+    const entry = await this.kv.get<StateData<T>>(this.key(state))
+    if (entry.value === null) {
+      return null
+    }
+    // 仅当条目在读取后未被修改时才删除，保证并发请求中只有一个能成功
+    const result = await this.kv
+      .atomic()
+      .check(entry)
+      .delete(this.key(state))
+      .commit()
+    return result.ok ? entry.value : null
+  }
+
+  /**
+   * 遍历前缀下的所有条目并删除已过期的 state
+   * 条目会通过 expireIn 自动过期，该方法只用于手动或后台清理
+   */
+  async sweep(now: number): Promise<number> {
+    let removed = 0
+    for await (const entry of this.kv.list<StateData>({
+      prefix: [this.prefix]
+    })) {
+      if (entry.value.expiresAt < now) {
+        await this.kv.delete(entry.key)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  async size(): Promise<number> {
+    let count = 0
+    for await (const _ of this.kv.list({ prefix: [this.prefix] })) {
+      count++
+    }
+    return count
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * 状态管理类型模块，定义了与状态管理相关的类型和接口。
- * 该模块包含状态数据的类型定义。
+ * 该模块包含状态数据、状态存储接口以及状态操作选项的类型定义。
  *
  * @example
  * ```ts
@@ -9,13 +9,16 @@
  * // 使用状态数据类型
  * const myStateData: StateData<{ redirectUri: string }> = {
  *   data: { redirectUri: "http://localhost:8000/callback" },
- *   createdAt: Date.now()
+ *   createdAt: Date.now(),
+ *   expiresAt: Date.now() + 10 * 60 * 1000
  * };
  * ```
  *
  * @module
  */
 
+import type { Context } from 'hono'
+
 /**
  * 通用状态数据接口，允许存储任意类型的数据。
  * @template T 存储的数据类型
@@ -25,4 +28,276 @@ export interface StateData<T = unknown> {
   data: T
   /** 创建时间戳（毫秒） */
   createdAt: number
+  /** 过期时间戳（毫秒），超过该时间后 state 失效 */
+  expiresAt: number
+  /** 会话绑定值，仅在创建时启用了绑定的 state 中存在 */
+  binding?: string
+  /** 所属命名空间，仅在创建时指定了命名空间的 state 中存在 */
+  namespace?: string
+}
+
+/**
+ * 状态存储接口，定义了 state 的读写、删除和过期清理操作
+ * 通过实现该接口，可以将 state 保存在内存、Deno KV 或其他共享存储中，
+ * 从而支持多实例部署（例如负载均衡后的多个 Deno 进程）
+ *
+ * @example
+ * ```ts
+ * import type { StateData, StateStore } from "@aiho/hono/state/types";
+ *
+ * // 基于 Map 的简单实现
+ * class MyStateStore implements StateStore {
+ *   private map = new Map<string, StateData>();
+ *
+ *   async get<T>(state: string) {
+ *     return (this.map.get(state) as StateData<T> | undefined) ?? null;
+ *   }
+ *   async set<T>(state: string, stateData: StateData<T>) {
+ *     this.map.set(state, stateData);
+ *   }
+ *   async delete(state: string) {
+ *     return this.map.delete(state);
+ *   }
+ *   async take<T>(state: string) {
+ *     const stateData = await this.get<T>(state);
+ *     this.map.delete(state);
+ *     return stateData;
+ *   }
+ *   async sweep(now: number) {
+ *     let removed = 0;
+ *     for (const [state, stateData] of this.map) {
+ *       if (stateData.expiresAt < now && this.map.delete(state)) removed++;
+ *     }
+ *     return removed;
+ *   }
+ *   async size() {
+ *     return this.map.size;
+ *   }
+ * }
+ * ```
+ */
+export interface StateStore {
+  /**
+   * 存储是否会按 set 传入的 ttl 自动删除过期条目（例如 Deno KV 的 expireIn）
+   * 为 true 时 createState 不会在每次创建前调用 sweep，过期条目仍可通过 clearExpiredStateData 手动清理
+   */
+  readonly autoExpires?: boolean
+
+  /**
+   * 读取 state 关联的数据
+   * @param state state 字符串
+   * @returns 存储的状态数据，不存在时返回 null
+   */
+  get<T>(state: string): Promise<StateData<T> | null>
+
+  /**
+   * 保存 state 关联的数据
+   * @param state state 字符串
+   * @param stateData 状态数据
+   * @param ttl 有效期（毫秒），存储可据此自动过期条目
+   */
+  set<T>(state: string, stateData: StateData<T>, ttl: number): Promise<void>
+
+  /**
+   * 删除 state
+   * @param state state 字符串
+   * @returns 如果 state 存在并已删除返回 true，否则返回 false
+   */
+  delete(state: string): Promise<boolean>
+
+  /**
+   * 原子地读取并删除 state
+   * 对于同一个 state 的并发调用，最多只有一次能返回数据
+   * @param state state 字符串
+   * @returns 被删除的状态数据，不存在或已被其他调用取走时返回 null
+   */
+  take<T>(state: string): Promise<StateData<T> | null>
+
+  /**
+   * 清理已过期的 state
+   * @param now 当前时间戳（毫秒），expiresAt 早于该时间的 state 视为过期
+   * @returns 被清理的 state 数量
+   */
+  sweep(now: number): Promise<number>
+
+  /**
+   * 获取当前保存的 state 数量（包括尚未清理的过期 state）
+   * @returns state 数量
+   */
+  size(): Promise<number>
+}
+
+/**
+ * 状态管理模块的日志记录器接口
+ * 每条日志包含一条消息和可选的结构化字段，字段中的 state 值均已脱敏
+ */
+export interface StateLogger {
+  /** 记录调试信息，例如 state 的创建、消费和删除 */
+  debug(message: string, fields?: Record<string, unknown>): void
+  /** 记录一般信息 */
+  info(message: string, fields?: Record<string, unknown>): void
+  /** 记录警告，例如收到未知或过期的 state */
+  warn(message: string, fields?: Record<string, unknown>): void
+  /** 记录错误，例如后台清理失败 */
+  error(message: string, fields?: Record<string, unknown>): void
+}
+
+/**
+ * 无状态模式配置
+ * 启用后 state 本身就是包含数据、nonce 和过期时间的签名令牌，不再写入存储
+ */
+export interface StatelessStateConfig {
+  /** 用于派生签名和加密密钥的密钥，建议至少 32 个字符的随机字符串 */
+  secret: string
+  /** 是否使用 AES-GCM 加密令牌内容，默认为 false（仅签名，内容可被解码查看） */
+  encrypt?: boolean
+  /**
+   * 保存一次性 nonce 的 cookie 名称前缀，默认为 "aiho_state_nonce"
+   * 每个 state 使用独立的 cookie，实际名称为 `<前缀>_<令牌签名前 16 个字符>`
+   */
+  cookieName?: string
+}
+
+/**
+ * 会话绑定配置
+ */
+export interface StateBindingConfig {
+  /** 保存绑定值的 cookie 名称，默认为 "aiho_state_binding" */
+  cookieName?: string
+}
+
+/**
+ * state 操作选项
+ */
+export interface StateOptions {
+  /** 使用的状态存储，默认为通过 setDefaultStateStore 设置的存储（初始为内存存储） */
+  store?: StateStore
+  /** state 有效期（毫秒），仅在创建 state 时生效，默认为 10 分钟 */
+  ttl?: number
+  /** 无状态模式配置，设置后忽略 store */
+  stateless?: StatelessStateConfig
+  /**
+   * 是否将 state 绑定到发起流程的浏览器，创建时生效
+   * 已绑定的 state 在读取时总是校验绑定 cookie；使用自定义 cookie 名称时，读取也需传入相同配置
+   */
+  bind?: boolean | StateBindingConfig
+  /** Hono 上下文，无状态模式和会话绑定时用于读写 cookie */
+  context?: Context
+  /**
+   * 命名空间，只能包含字母、数字、下划线和连字符
+   * 创建时作为 state 的前缀；读取时只接受同一命名空间的 state
+   */
+  namespace?: string
+}
+
+/**
+ * 后台清理配置
+ */
+export interface StateSweeperOptions extends Pick<StateOptions, 'store'> {
+  /** 清理间隔（毫秒），默认为 60 秒 */
+  intervalMs?: number
+}
+
+/**
+ * 状态管理模块的累计计数
+ */
+export interface StateCounters {
+  /** 创建的 state 数量 */
+  created: number
+  /** 成功消费的 state 数量 */
+  consumed: number
+  /** 在使用前过期的 state 数量（包括被清理的和读取时发现已过期的） */
+  expired: number
+  /** 使用未知、已消费或绑定不匹配的 state 进行查询的次数 */
+  invalid: number
+}
+
+/**
+ * 状态管理模块的统计信息
+ */
+export interface StateStats extends StateCounters {
+  /** 存储中当前的 state 数量，无状态模式下为 null */
+  size: number | null
+}
+
+/**
+ * 指标路由处理器配置
+ */
+export interface StateMetricsHandlerOptions extends Pick<
+  StateOptions,
+  'store' | 'stateless'
+> {
+  /** 指标名称前缀，默认为 "aiho_state" */
+  prefix?: string
+}
+
+/**
+ * Standard Schema（https://standardschema.dev）接口的最小子集
+ * Zod、Valibot、ArkType 等校验库的 schema 对象都实现了该接口
+ * @template Output 校验通过后的数据类型
+ */
+export interface StandardSchemaV1<Output = unknown> {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown
+    ) =>
+      StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>
+  }
+}
+
+/**
+ * Standard Schema 校验结果
+ * @template Output 校验通过后的数据类型
+ */
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<{ readonly message: string }> }
+
+/**
+ * state 数据校验器
+ * 可以是返回校验后数据（校验失败时抛出异常）的函数，也可以是 Standard Schema 对象
+ * @template T 校验通过后的数据类型
+ */
+export type StateValidator<T> =
+  ((data: unknown) => T | Promise<T>) | StandardSchemaV1<T>
+
+/**
+ * state 命名空间配置
+ * 除 validate 外的选项作为该命名空间下所有操作的默认选项
+ * @template T 存储的数据类型
+ */
+export interface StateNamespaceOptions<T> extends Omit<
+  StateOptions,
+  'namespace'
+> {
+  /** 读取时对数据进行校验，校验失败的 state 视为无效 */
+  validate?: StateValidator<T>
+}
+
+/**
+ * state 命名空间，提供限定在该命名空间内的类型化 state 操作
+ * @template T 存储的数据类型
+ */
+export interface StateNamespace<T> {
+  /** 命名空间名称 */
+  readonly name: string
+  /** 在该命名空间中创建 state，参见 createState */
+  create(data: T, options?: Omit<StateOptions, 'namespace'>): Promise<string>
+  /** 获取该命名空间中的 state 数据，参见 getStateData */
+  get(
+    state: string,
+    options?: Omit<StateOptions, 'namespace'>
+  ): Promise<T | null>
+  /** 原子地消费该命名空间中的 state，参见 consumeState */
+  consume(
+    state: string,
+    options?: Omit<StateOptions, 'namespace'>
+  ): Promise<T | null>
+  /** 删除该命名空间中的 state，参见 deleteStateData */
+  delete(
+    state: string,
+    options?: Omit<StateOptions, 'namespace'>
+  ): Promise<void>
 }
@@ -0,0 +1,85 @@
+/**
+ * 内部工具模块，提供 JWT、状态管理和速率限制等模块共用的辅助函数。
+ * 该模块不属于公开 API，未在 deno.json 的 exports 中导出。
+ *
+ * @module
+ */
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/**
+ * 以固定时间比较两个字符串，防止时序攻击
+ * @param a 字符串 a
+ * @param b 字符串 b
+ * @returns 是否相等
+ */
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  const left = encoder.encode(a)
+  const right = encoder.encode(b)
+  let diff = left.length ^ right.length
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ (right[i % right.length] ?? 0)
+  }
+  return diff === 0
+}
+
+/**
+ * 将字节编码为 base64url 字符串
+ * @param bytes 字节数组
+ * @returns base64url 字符串（无填充）
+ */
+export const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * 将 base64url 字符串解码为字节
+ * @param value base64url 字符串
+ * @returns 字节数组
+ * @throws 如果字符串不是合法的 base64url
+ */
+export const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/**
+ * 将 base64url 字符串解码为 JSON 对象
+ * @param value base64url 字符串
+ * @returns JSON 对象，不是对象时返回 null
+ * @throws 如果字符串不是合法的 base64url 或 JSON
+ */
+export const fromBase64UrlJSON = (
+  value: string
+): Record<string, unknown> | null => {
+  const parsed = JSON.parse(decoder.decode(fromBase64Url(value)))
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? parsed
+    : null
+}
+
+/**
+ * 按路径读取声明
+ * @param payload JWT 负载数据或其他对象
+ * @param path 以点分隔的声明路径，例如 "realm_access.roles"
+ * @returns 声明值，路径不存在时返回 undefined
+ */
+export const getClaim = (
+  payload: Record<string, unknown>,
+  path: string
+): unknown => {
+  let value: unknown = payload
+  for (const key of path.split('.')) {
+    if (!value || typeof value !== 'object') {
+      return undefined
+    }
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}